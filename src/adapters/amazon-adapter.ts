@@ -0,0 +1,68 @@
+import { SelectorSiteAdapter } from './selector-adapter';
+import { getAttributeValue } from '@/utils/dom';
+
+const ASIN_PATTERN = /\/(?:dp|gp\/product|gp\/aw\/d)\/([A-Z0-9]{10})/i;
+
+/**
+ * Amazon Adapter
+ * Listing URLs carry slugs, ref paths and tracking params; the ASIN is the
+ * only stable identity, so URLs are collapsed to /dp/<ASIN>.
+ */
+export class AmazonAdapter extends SelectorSiteAdapter {
+  /**
+   * Canonicalize to https://<host>/dp/<ASIN>
+   */
+  canonicalizeUrl(url: string): string {
+    const asin = this.extractAsin(url);
+    if (!asin) return super.canonicalizeUrl(url);
+
+    try {
+      return `${new URL(url).origin}/dp/${asin}`;
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Product ID from the hidden ASIN input, URL, or data-asin attribute
+   */
+  protected extractProductId(doc: Document, pageUrl: string): string {
+    const asinInput = doc.querySelector(
+      'input#ASIN, input[name="ASIN"]'
+    ) as HTMLInputElement | null;
+    return (
+      asinInput?.value ||
+      this.extractAsin(pageUrl) ||
+      getAttributeValue(doc, this.config.selectors.productPage.productId, 'data-asin') ||
+      ''
+    );
+  }
+
+  /**
+   * Search tiles always carry the ASIN on the container
+   */
+  protected extractTileProductId(container: Element, url: string): string {
+    return (
+      container.getAttribute('data-asin') ||
+      this.extractAsin(url) ||
+      super.extractTileProductId(container, url)
+    );
+  }
+
+  /**
+   * Pull the ASIN out of any Amazon product URL shape, including sponsored
+   * /sspa/click redirects that carry the product path URL-encoded
+   */
+  private extractAsin(url: string): string {
+    const match = url.match(ASIN_PATTERN) || safeDecode(url).match(ASIN_PATTERN);
+    return match ? match[1].toUpperCase() : '';
+  }
+}
+
+function safeDecode(url: string): string {
+  try {
+    return decodeURIComponent(url);
+  } catch {
+    return url;
+  }
+}
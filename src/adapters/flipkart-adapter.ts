@@ -0,0 +1,48 @@
+import { SelectorSiteAdapter } from './selector-adapter';
+
+/**
+ * Flipkart Adapter
+ * Product identity lives in the `pid` query param; everything else in the
+ * query string is tracking noise that differs per search.
+ */
+export class FlipkartAdapter extends SelectorSiteAdapter {
+  /**
+   * Canonicalize to https://www.flipkart.com/<slug>/p/<itemId>?pid=<pid>
+   */
+  canonicalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      const pid = parsed.searchParams.get('pid');
+      parsed.search = '';
+      parsed.hash = '';
+      if (pid) {
+        parsed.searchParams.set('pid', pid);
+      }
+      return parsed.href;
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Product ID from the `pid` URL param, falling back to data attributes
+   */
+  protected extractProductId(doc: Document, pageUrl: string): string {
+    return this.extractPid(pageUrl) || super.extractProductId(doc, pageUrl);
+  }
+
+  /**
+   * Search tiles carry the pid on data-id
+   */
+  protected extractTileProductId(container: Element, url: string): string {
+    return super.extractTileProductId(container, url) || this.extractPid(url);
+  }
+
+  private extractPid(url: string): string {
+    try {
+      return new URL(url).searchParams.get('pid') || '';
+    } catch {
+      return '';
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { SiteAdapter, ErrorCode } from '@/types';
+import { SITE_CONFIGS } from '@/config/sites';
+import { SelectorSiteAdapter } from './selector-adapter';
+import { AmazonAdapter } from './amazon-adapter';
+import { FlipkartAdapter } from './flipkart-adapter';
+import { FineDealError } from '@/utils/helpers';
+
+/**
+ * Site Adapter Registry
+ * Sites without a dedicated adapter use the selector-driven default.
+ */
+const CUSTOM_ADAPTERS: Record<string, typeof SelectorSiteAdapter> = {
+  amazon: AmazonAdapter,
+  amazonfresh: AmazonAdapter,
+  amazon_us: AmazonAdapter,
+  amazon_uk: AmazonAdapter,
+  amazon_de: AmazonAdapter,
+  flipkart: FlipkartAdapter,
+};
+
+export const SITE_ADAPTERS: Record<string, SiteAdapter> = Object.fromEntries(
+  Object.entries(SITE_CONFIGS).map(([site, config]) => {
+    const AdapterClass = CUSTOM_ADAPTERS[site] || SelectorSiteAdapter;
+    return [site, new AdapterClass(site, config)];
+  })
+);
+
+/**
+ * Get adapter for a site key
+ */
+export function getSiteAdapter(site: string): SiteAdapter {
+  const adapter = SITE_ADAPTERS[site];
+  if (!adapter) {
+    throw new FineDealError(
+      `No site adapter registered for "${site}"`,
+      ErrorCode.SCRAPE_ERROR,
+      site
+    );
+  }
+  return adapter;
+}
+
+/**
+ * Get adapter for the site serving a hostname
+ */
+export function getAdapterForHostname(hostname: string): SiteAdapter | null {
+  return Object.values(SITE_ADAPTERS).find((adapter) => adapter.matchesHostname(hostname)) || null;
+}
+
+/**
+ * Get adapter for a page opened for a known site. Sites can share a host
+ * (Amazon Fresh searches on www.amazon.in), so the site key wins over the
+ * hostname when it names a site serving that host.
+ */
+export function getAdapterForPage(site: string | undefined, hostname: string): SiteAdapter | null {
+  const adapter = site ? SITE_ADAPTERS[site] : undefined;
+  if (adapter?.matchesHostname(hostname)) return adapter;
+  return getAdapterForHostname(hostname);
+}
+
+export { SelectorSiteAdapter, AmazonAdapter, FlipkartAdapter };
@@ -0,0 +1,491 @@
+import {
+  Product,
+  ProductDataField,
+  RateLimitConfig,
+  RegionConfig,
+  ScrapeDepthConfig,
+  ScrapedProduct,
+  SearchMode,
+  SelectorTrace,
+  SiteAdapter,
+  SiteConfig,
+} from '@/types';
+import { parsePrice, formatPrice, roundPrice, extractBrand, detectCategory } from '@/utils/product';
+import { getRegion } from '@/config/regions';
+import { hostnameMatchesSite } from '@/config/sites';
+import { extractStructuredData } from '@/utils/structured-data';
+import {
+  extractProductNumbers,
+  identifiersFromSpecs,
+  parseIdentifier,
+} from '@/utils/product-number-extractor';
+import { isProductAvailable, checkAvailability } from '@/utils/availability-checker';
+import { findMrpElement, findSalePriceElement, resolvePricing } from '@/utils/pricing';
+import { extractSeller } from '@/utils/seller';
+import { extractDelivery } from '@/utils/delivery';
+import { extractOffers } from '@/utils/offers';
+import { parseRating, parseReviewCount } from '@/utils/ratings';
+import { extractSelectedVariant } from '@/utils/variant';
+import { extractSpecAttributes } from '@/utils/spec-table';
+import { extractNetQuantity, parsePackCount } from '@/utils/quantity';
+import { extractCondition } from '@/utils/condition';
+import { isSponsoredTile } from '@/utils/sponsored';
+import {
+  getElementText,
+  getImageSrc,
+  getAttributeValue,
+  getAttributeValueFrom,
+  queryFirst,
+  readImageSrc,
+  resolveUrl,
+} from '@/utils/dom';
+import logger from '@/utils/logger';
+
+const DEFAULT_SCRAPE_DEPTH: ScrapeDepthConfig = {
+  mode: 'single',
+  maxResults: 20,
+  maxScrolls: 3,
+  maxPages: 2,
+  nextPage: [],
+  enoughCandidates: 5,
+};
+
+const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  burst: 4,
+  perMinute: 10,
+};
+
+/**
+ * Default Site Adapter
+ * Drives extraction from the flat selector lists in SITE_CONFIGS.
+ * Sites with quirks extend this class and override only what differs.
+ */
+export class SelectorSiteAdapter implements SiteAdapter {
+  // Currency and price notation of the storefront
+  protected readonly region: RegionConfig;
+
+  constructor(
+    readonly site: string,
+    readonly config: SiteConfig
+  ) {
+    this.region = getRegion(config.region);
+  }
+
+  /**
+   * Check whether a hostname belongs to this site
+   */
+  matchesHostname(hostname: string): boolean {
+    return hostnameMatchesSite(hostname, this.config);
+  }
+
+  /**
+   * Build search page URL for a query
+   */
+  buildSearchUrl(query: string): string {
+    return this.config.searchUrl + encodeURIComponent(query);
+  }
+
+  /**
+   * Canonicalize product URL (drop fragments and tracking params)
+   */
+  canonicalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      Array.from(parsed.searchParams.keys())
+        .filter((key) => /^(utm_|ref|tag|affid|affExtParam)/i.test(key))
+        .forEach((key) => parsed.searchParams.delete(key));
+      return parsed.href;
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Selectors that signal the search page has rendered
+   */
+  getReadySelectors(): string[] {
+    return [
+      ...this.config.selectors.searchPage.container,
+      ...this.config.selectors.searchPage.price,
+    ];
+  }
+
+  /**
+   * Extract product information from a product page.
+   * Structured data (JSON-LD, microdata, OpenGraph) is read first; selectors
+   * only fill the fields it didn't provide.
+   */
+  extractProduct(doc: Document, pageUrl: string, trace?: SelectorTrace): Product {
+    const selectors = this.config.selectors.productPage;
+    const structured = extractStructuredData(doc);
+    const { data } = structured;
+    const fieldSources: NonNullable<Product['fieldSources']> = { ...structured.sources };
+
+    const fromSelectors = (field: ProductDataField, read: () => string): string => {
+      const value = read();
+      if (value) fieldSources[field] = 'selector';
+      return value;
+    };
+
+    const title =
+      data.title ||
+      fromSelectors('title', () => getElementText(doc, selectors.title, trace?.field('title'))) ||
+      'Product not found';
+    const listedPriceText =
+      data.price !== undefined
+        ? this.formatStructuredPrice(data.price, data.currency)
+        : fromSelectors('price', () =>
+            readText(findSalePriceElement(doc, selectors.price, trace?.field('price')))
+          );
+    const mrpText = fromSelectors('mrp', () =>
+      readText(findMrpElement(doc, selectors.mrp, trace?.field('mrp')))
+    );
+    const image = data.image
+      ? resolveUrl(data.image, pageUrl)
+      : fromSelectors('image', () =>
+          getImageSrc(doc, selectors.image, pageUrl, trace?.field('image'))
+        );
+    const brandText =
+      data.brand ||
+      fromSelectors('brand', () =>
+        selectors.brand ? getElementText(doc, selectors.brand, trace?.field('brand')) : ''
+      );
+    const ratingText =
+      data.rating === undefined
+        ? fromSelectors('rating', () =>
+            selectors.rating ? getElementText(doc, selectors.rating, trace?.field('rating')) : ''
+          )
+        : '';
+    const reviewCountText =
+      data.reviewCount === undefined
+        ? fromSelectors('reviewCount', () =>
+            selectors.reviewCount
+              ? getElementText(doc, selectors.reviewCount, trace?.field('reviewCount'))
+              : ''
+          )
+        : '';
+    // The selected variant overrides spec rows describing the default one
+    const specAttributes = extractSpecAttributes(doc, selectors.specs, trace);
+    const selectedVariant = extractSelectedVariant(doc, selectors.variant, trace);
+    const productId = this.extractProductId(doc, pageUrl);
+    const url = this.canonicalizeUrl(pageUrl);
+
+    // Barcodes come from structured data, then spec rows; bad check digits are dropped
+    if (data.gtin && !parseIdentifier(data.gtin)) delete fieldSources.gtin;
+    // ADVANCED: Extract product number (SKU, model, part number)
+    const productNumberInfo = extractProductNumbers(title, productId, url, [
+      data.gtin,
+      ...identifiersFromSpecs(specAttributes?.specs),
+    ]);
+    if (productNumberInfo.gtin && !fieldSources.gtin) fieldSources.gtin = 'selector';
+    const sku = data.sku || fromSelectors('sku', () => productNumberInfo.sku);
+    const packCount = parsePackCount(title);
+
+    const currency = data.currency || this.region.currency;
+    const listedPrice =
+      data.price !== undefined
+        ? roundPrice(data.price, this.region.fractionDigits)
+        : parsePrice(listedPriceText, this.region);
+    const pricing = resolvePricing(listedPrice, parsePrice(mrpText, this.region) || undefined);
+    // When price and MRP were swapped, show the real selling price
+    const priceText =
+      pricing.salePrice === listedPrice
+        ? listedPriceText
+        : formatPrice(pricing.salePrice, currency);
+
+    // Badges, title and URL override a structured "new" some sites emit for every listing
+    const condition = extractCondition(doc, selectors.condition, title, url, data.condition);
+    if (condition !== data.condition) fieldSources.condition = 'heuristic';
+
+    let availability = data.availability;
+    if (!availability) {
+      availability = this.detectPageAvailability(doc);
+      fieldSources.availability = 'heuristic';
+    }
+
+    return {
+      site: this.site,
+      title,
+      price: priceText,
+      numericPrice: pricing.salePrice,
+      url,
+      image,
+      productId,
+      brand: brandText || extractBrand(title),
+      category: detectCategory(title),
+      netQuantity: extractNetQuantity(title, specAttributes?.specs),
+      packCount: packCount > 1 ? packCount : undefined,
+      condition,
+      attributes:
+        specAttributes || selectedVariant ? { ...specAttributes, ...selectedVariant } : undefined,
+      productNumber: productNumberInfo.productNumber || undefined,
+      sku: sku || undefined,
+      availability,
+      currency,
+      gtin: productNumberInfo.gtin || undefined,
+      isbn: productNumberInfo.isbn || undefined,
+      mrp: pricing.mrp,
+      salePrice: pricing.salePrice || undefined,
+      discountPercent: pricing.discountPercent,
+      seller: extractSeller(doc, selectors.seller, this.config.fulfilmentBadge, trace),
+      delivery: extractDelivery(doc, selectors.delivery, trace, undefined, this.region),
+      offers: extractOffers(doc, selectors.offers, trace, this.region),
+      rating: data.rating ?? parseRating(ratingText),
+      reviewCount: data.reviewCount ?? parseReviewCount(reviewCountText),
+      fieldSources,
+    };
+  }
+
+  /**
+   * Render a structured price the way the page would display it
+   */
+  protected formatStructuredPrice(price: number, currency?: string): string {
+    return formatPrice(
+      roundPrice(price, this.region.fractionDigits),
+      currency || this.region.currency
+    );
+  }
+
+  /**
+   * Extract product ID from a product page
+   */
+  protected extractProductId(doc: Document, _pageUrl: string): string {
+    const selectors = this.config.selectors.productPage.productId;
+    return (
+      getAttributeValue(doc, selectors, 'data-asin') ||
+      getAttributeValue(doc, selectors, 'data-id') ||
+      ''
+    );
+  }
+
+  /**
+   * Check availability from page-level "out of stock" indicators
+   */
+  protected detectPageAvailability(doc: Document): Product['availability'] {
+    const bodyText = doc.body?.textContent?.toLowerCase() || '';
+
+    if (bodyText.includes('out of stock') || bodyText.includes('currently unavailable')) {
+      return 'out-of-stock';
+    }
+    if (bodyText.includes('in stock') || bodyText.includes('add to cart')) {
+      return 'in-stock';
+    }
+    if (bodyText.includes('only') && bodyText.includes('left')) {
+      return 'limited-stock';
+    }
+    return 'unknown';
+  }
+
+  /**
+   * Scrape search results from a search page (OPTIMIZED for speed + AVAILABILITY FILTERING)
+   */
+  extractSearchResults(doc: Document, pageUrl: string, trace?: SelectorTrace): ScrapedProduct[] {
+    const products: ScrapedProduct[] = [];
+    const containers = this.findContainers(doc, trace);
+
+    if (containers.length === 0) {
+      logger.warn(`No product containers found on page for ${this.site}`);
+      return products;
+    }
+
+    logger.info(`Scraping ${containers.length} products from ${this.site}`);
+
+    // OPTIMIZATION: Limit per-site results (faster scraping & matching)
+    // Sponsored tiles are kept but don't count, so ads can't crowd out organic results
+    const limit = this.getScrapeDepth().maxResults;
+    let organic = 0;
+
+    for (let index = 0; index < containers.length && organic < limit; index++) {
+      try {
+        const product = this.extractSearchTile(containers[index], pageUrl, index, trace);
+        if (product) {
+          products.push(product);
+          if (!product.isSponsored) organic++;
+        }
+      } catch (error) {
+        logger.debug(`Error scraping product at index ${index}:`, error);
+      }
+    }
+
+    return products;
+  }
+
+  /**
+   * Search depth for this site, with defaults for anything not configured
+   */
+  getScrapeDepth(): ScrapeDepthConfig {
+    return { ...DEFAULT_SCRAPE_DEPTH, ...this.config.scraping };
+  }
+
+  /**
+   * How often this site may be searched
+   */
+  getRateLimit(): RateLimitConfig {
+    return { ...DEFAULT_RATE_LIMIT, ...this.config.rateLimit };
+  }
+
+  /**
+   * Whether search pages can be fetched and parsed without a real tab
+   */
+  getSearchMode(): SearchMode {
+    return this.config.searchMode || 'tab';
+  }
+
+  /**
+   * URL of the next results page, if the site paginates and one exists
+   */
+  findNextPageUrl(doc: Document, pageUrl: string): string | null {
+    const depth = this.getScrapeDepth();
+    if (depth.mode !== 'paginated') return null;
+
+    const link = queryFirst(doc, depth.nextPage, (element) => {
+      const disabled =
+        element.getAttribute('aria-disabled') === 'true' || element.classList.contains('disabled');
+      return !!element.getAttribute('href') && !disabled;
+    });
+    if (!link) return null;
+
+    const nextUrl = resolveUrl(link.element.getAttribute('href') || '', pageUrl);
+    return nextUrl && nextUrl !== pageUrl ? nextUrl : null;
+  }
+
+  /**
+   * Find result containers, trying the most common selector first
+   */
+  protected findContainers(doc: Document, trace?: SelectorTrace): Element[] {
+    const selectors = this.config.selectors.searchPage.container;
+    const recordContainer = trace?.field('container');
+
+    for (let index = 0; index < selectors.length; index++) {
+      const containers = doc.querySelectorAll(selectors[index]);
+      if (containers.length > 0) {
+        logger.debug(`Found ${containers.length} containers with selector: ${selectors[index]}`);
+        recordContainer?.(index);
+        return Array.from(containers);
+      }
+    }
+    recordContainer?.(-1);
+    return [];
+  }
+
+  /**
+   * Extract a single search result tile
+   */
+  protected extractSearchTile(
+    container: Element,
+    pageUrl: string,
+    index: number,
+    trace?: SelectorTrace
+  ): ScrapedProduct | null {
+    const selectors = this.config.selectors.searchPage;
+    const find = (field: 'title' | 'image' | 'link') =>
+      queryFirst(container, selectors[field], undefined, trace?.field(field))?.element;
+    const textOf = (field: 'rating' | 'reviewCount') => {
+      const fieldSelectors = selectors[field];
+      return fieldSelectors ? getElementText(container, fieldSelectors, trace?.field(field)) : '';
+    };
+
+    const titleEl = find('title');
+    const priceEl = findSalePriceElement(container, selectors.price, trace?.field('price'));
+    const mrpEl = findMrpElement(container, selectors.mrp, trace?.field('mrp'));
+    const imageEl = find('image');
+    const linkEl = find('link');
+
+    if (!titleEl || !priceEl) {
+      logger.debug(`Skipping container ${index}: missing title or price`);
+      return null;
+    }
+
+    // ADVANCED: Check availability before processing
+    if (!isProductAvailable(container, priceEl)) {
+      logger.debug(`Skipping container ${index}: product not available`);
+      return null;
+    }
+
+    const title = titleEl.textContent?.trim() || '';
+    const priceText = priceEl.textContent?.trim() || '';
+
+    if (!title || !priceText) {
+      logger.debug(`Skipping container ${index}: empty title or price`);
+      return null;
+    }
+
+    const pricing = resolvePricing(
+      parsePrice(priceText, this.region),
+      parsePrice(readText(mrpEl), this.region) || undefined
+    );
+    const numericPrice = pricing.salePrice;
+    if (numericPrice < 10) {
+      logger.debug(
+        `Skipping container ${index}: invalid price ${numericPrice} from "${priceText}"`
+      );
+      return null;
+    }
+
+    const href = linkEl?.getAttribute('href') || '';
+    if (!href) {
+      logger.debug(`Skipping container ${index}: no URL found`);
+      return null;
+    }
+
+    const url = this.canonicalizeUrl(resolveUrl(href, pageUrl));
+    const image = imageEl ? resolveUrl(readImageSrc(imageEl), pageUrl) : '';
+    const productId = this.extractTileProductId(container, url);
+
+    // ADVANCED: Extract product number from title and URL
+    const productNumberInfo = extractProductNumbers(title, productId, url);
+    const packCount = parsePackCount(title);
+
+    return {
+      site: this.site,
+      title,
+      price:
+        numericPrice === parsePrice(priceText, this.region)
+          ? priceText
+          : formatPrice(numericPrice, this.region.currency),
+      numericPrice,
+      url,
+      image,
+      productId,
+      brand: extractBrand(title),
+      category: detectCategory(title),
+      netQuantity: extractNetQuantity(title),
+      packCount: packCount > 1 ? packCount : undefined,
+      condition: extractCondition(container, selectors.condition, title, url),
+      isSponsored: isSponsoredTile(container, selectors.sponsored) || undefined,
+      productNumber: productNumberInfo.productNumber || undefined,
+      sku: productNumberInfo.sku || undefined,
+      gtin: productNumberInfo.gtin || undefined,
+      isbn: productNumberInfo.isbn || undefined,
+      availability: checkAvailability(container).status,
+      currency: this.region.currency,
+      mrp: pricing.mrp,
+      salePrice: numericPrice,
+      discountPercent: pricing.discountPercent,
+      seller: extractSeller(container, selectors.seller, this.config.fulfilmentBadge, trace),
+      delivery: extractDelivery(container, selectors.delivery, trace, undefined, this.region),
+      offers: extractOffers(container, selectors.offers, trace, this.region),
+      rating: parseRating(textOf('rating')),
+      reviewCount: parseReviewCount(textOf('reviewCount')),
+    };
+  }
+
+  /**
+   * Extract product ID from a search result tile
+   */
+  protected extractTileProductId(container: Element, _url: string): string {
+    const selectors = this.config.selectors.searchPage.productId;
+    if (!selectors) return '';
+
+    return (
+      getAttributeValueFrom(container, selectors, 'data-asin') ||
+      getAttributeValueFrom(container, selectors, 'data-id') ||
+      ''
+    );
+  }
+}
+
+function readText(element: Element | null): string {
+  return element?.textContent?.trim() || '';
+}
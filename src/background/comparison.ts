@@ -0,0 +1,729 @@
+import {
+  ComparisonJob,
+  ChromeMessage,
+  ErrorCode,
+  LatencyPhase,
+  MatchResult,
+  Product,
+  ProgressUpdate,
+  UserSettings,
+} from '@/types';
+import { getEnabledSites } from '@/config/sites';
+import { getSiteAdapter } from '@/adapters';
+import { productMatcher } from '@/services/matcher';
+import { smartMatcher } from '@/services/smart-matcher';
+import { settings } from '@/services/settings';
+import { comparisonJobs } from '@/services/comparison-jobs';
+import { scheduler } from '@/services/scheduler';
+import { latencyTracker } from '@/services/latency-tracker';
+import { generateSearchQueries } from '@/utils/product';
+import {
+  FineDealError,
+  cancelledError,
+  isCancelled,
+  isRateLimited,
+  sleep,
+  throwIfAborted,
+  withTimeout,
+} from '@/utils/helpers';
+import { smartCache } from '@/utils/cache';
+import { convertProduct } from '@/utils/currency';
+import { deduplicateColorVariants, deduplicateProducts } from '@/utils/deduplication';
+import { mergeSearchResults } from '@/utils/search-depth';
+import { isSponsoredListing } from '@/utils/sponsored';
+import { fetchSearchResults } from './fetch-search';
+import logger from '@/utils/logger';
+
+/**
+ * Comparison Pipeline
+ * Searches competitor sites, matches and ranks their listings. Runs in the
+ * service worker so it survives the popup closing; progress and the result
+ * are saved as a job the popup reattaches to.
+ */
+
+interface ActiveJob {
+  job: ComparisonJob;
+  controller: AbortController;
+  done: Promise<void>; // Settles once the job has finished and closed its tabs
+}
+
+// Running job per source tab; saves from a superseded job are dropped
+const activeJobs = new Map<number, ActiveJob>();
+
+// Site statuses in the order they progress; an update never moves a site back
+const SITE_STAGES: ProgressUpdate['status'][] = [
+  'pending',
+  'searching',
+  'scraping',
+  'matching',
+  'complete',
+  'error',
+];
+
+/**
+ * Start comparing a product and return the new job. A running job for the
+ * same tab is cancelled and superseded.
+ */
+export async function startComparison(tabId: number, product: Product): Promise<ComparisonJob> {
+  const job: ComparisonJob = {
+    id: `${tabId}-${Date.now()}`,
+    tabId,
+    product,
+    status: 'running',
+    progress: 'Starting comparison...',
+    sites: [],
+    searchTabs: [],
+    startedAt: Date.now(),
+  };
+  activeJobs.get(tabId)?.controller.abort();
+  const active: ActiveJob = { job, controller: new AbortController(), done: Promise.resolve() };
+  activeJobs.set(tabId, active);
+  await comparisonJobs.save(job);
+
+  active.done = runComparison(job, active.controller.signal)
+    .then(() => {
+      job.status = 'complete';
+    })
+    .catch((error) => {
+      if (isCancelled(error)) {
+        logger.info(`Comparison cancelled for tab ${tabId}`);
+        job.status = 'cancelled';
+        job.progress = 'Comparison cancelled';
+        return;
+      }
+      logger.error('Comparison error:', error);
+      job.status = 'error';
+      job.error =
+        error instanceof FineDealError ? error.message : 'Failed to compare prices. Please try again.';
+    })
+    .finally(async () => {
+      // Whatever ended the job, no search tab outlives it
+      await closeSearchTabs(job);
+      job.finishedAt = Date.now();
+      await saveJob(job);
+      if (activeJobs.get(tabId) === active) activeJobs.delete(tabId);
+    });
+
+  return job;
+}
+
+/**
+ * Cancel the running comparison for a tab and wait until it has wound down
+ * and closed its search tabs. Returns false when nothing was running.
+ */
+export async function cancelComparison(tabId: number): Promise<boolean> {
+  const active = activeJobs.get(tabId);
+  if (!active) return false;
+
+  active.controller.abort();
+  await closeSearchTabs(active.job);
+  await active.done;
+  return true;
+}
+
+/**
+ * Jobs left running by a previous service worker instance were cut off:
+ * close their search tabs and mark them failed
+ */
+export async function recoverInterruptedJobs(): Promise<void> {
+  const jobs = await comparisonJobs.getAll();
+
+  for (const job of jobs) {
+    if (job.status !== 'running' || activeJobs.has(job.tabId)) continue;
+
+    await closeSearchTabs(job);
+    await comparisonJobs.save({
+      ...job,
+      status: 'error',
+      error: 'The comparison was interrupted. Please try again.',
+      sites: job.sites.map((entry) =>
+        entry.status === 'complete' ? entry : { ...entry, status: 'error' }
+      ),
+      searchTabs: [],
+      finishedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Run a comparison job to completion, saving progress and the result
+ */
+async function runComparison(job: ComparisonJob, signal: AbortSignal): Promise<void> {
+  const { product } = job;
+  const userSettings = await settings.get();
+  await latencyTracker.load();
+  logger.time('Comparison');
+
+  // Generate multiple search queries with fallback strategies
+  const searchQueries = generateSearchQueries(
+    product.title, 
+    product.brand, 
+    product.productNumber, 
+    product.productId, 
+    product.url,
+    product.attributes
+  );
+
+  // Compare in rupees; a listing from another region needs the user's exchange rate
+  const sourceProduct = convertProduct(product, userSettings.exchangeRates);
+  if (!sourceProduct) {
+    throw new FineDealError(
+      `Set an exchange rate for ${product.currency} under "Regions & exchange rates" to compare this product.`,
+      ErrorCode.INVALID_PRODUCT,
+      product.site,
+      { currency: product.currency }
+    );
+  }
+
+  // Get competitor sites (skipping stores that don't sell this category)
+  const allSites = getEnabledSites(userSettings.regions, product.category);
+  const competitorSites = allSites.filter((site) => site !== product.site);
+
+  job.sites = competitorSites.map((site) => ({ site, status: 'pending' }));
+  job.result = { original: sourceProduct, matches: [], hasSimilar: false };
+  await saveJob(job);
+
+  const allProducts: Product[] = [];
+  let matchRuns = 0;
+  let appliedRun = 0;
+
+  // Re-match everything found so far as each site finishes, so matches show
+  // up site by site instead of after the slowest one
+  const completeSite = async (site: string, products: Product[]) => {
+    if (products.length === 0) {
+      const failed = job.sites.find((entry) => entry.site === site)?.error;
+      await updateSite(job, site, { status: failed ? 'error' : 'complete', productsFound: 0 });
+      return;
+    }
+
+    logger.info(`${site}: ${products.length} products`);
+    allProducts.push(...products);
+    await updateSite(job, site, { status: 'matching', productsFound: products.length });
+
+    const run = ++matchRuns;
+    const matches = await matchProducts(sourceProduct, allProducts, userSettings);
+    if (run > appliedRun) {
+      appliedRun = run;
+      job.result = {
+        original: sourceProduct,
+        matches,
+        hasSimilar: matches.length > 0 && allProducts.length > 0,
+      };
+    }
+
+    await updateSite(job, site, {
+      status: 'complete',
+      matchesFound: matches.filter((match) => match.site === site).length,
+      error: undefined,
+    });
+  };
+
+  // Every site starts at once; the scheduler meters how many searches run
+  await Promise.all(
+    competitorSites.map(async (site) => {
+      const result = await searchSiteWithFallback(
+        job,
+        site,
+        searchQueries,
+        competitorSites.length,
+        signal
+      );
+      throwIfAborted(signal);
+      await completeSite(site, result?.products || []);
+    })
+  );
+
+  if (allProducts.length === 0) {
+    logger.warn('No products scraped from any site');
+  }
+  logger.info(`Total matches: ${job.result.matches.length}`);
+  logger.timeEnd('Comparison');
+}
+
+/**
+ * Match listings against the source product: convert currencies, drop
+ * excluded sponsored tiles, deduplicate, then match with fallbacks
+ */
+async function matchProducts(
+  sourceProduct: Product,
+  products: Product[],
+  userSettings: UserSettings
+): Promise<MatchResult[]> {
+  // Listings from other regions are converted; without a rate they can't be ranked
+  const comparableProducts = products
+    .map((listing) => convertProduct(listing, userSettings.exchangeRates))
+    .filter((listing): listing is Product => listing !== null);
+  if (comparableProducts.length < products.length) {
+    logger.warn(
+      `Skipped ${products.length - comparableProducts.length} listings with no exchange rate set`
+    );
+  }
+
+  // Sponsored tiles are left out entirely when the user excludes them
+  const organicProducts =
+    userSettings.sponsoredResults === 'exclude'
+      ? comparableProducts.filter((listing) => !isSponsoredListing(listing))
+      : comparableProducts;
+
+  // OPTIMIZATION: Deduplicate BEFORE matching (removes color variants early)
+  const deduplicatedProducts = deduplicateProducts(organicProducts);
+  if (deduplicatedProducts.length === 0) return [];
+
+  try {
+    // USE SMART MATCHER: Multi-factor weighted scoring system
+    // Renewed and used listings only take match slots when the user wants them
+    let matches = await smartMatcher.findMatches(sourceProduct, deduplicatedProducts, {
+      anyCondition: userSettings.includeOtherConditions,
+      sponsored: userSettings.sponsoredResults,
+    });
+
+    // FALLBACK: If no matches with smart matcher, try old matcher
+    if (matches.length === 0) {
+      logger.info('🔄 Smart matcher found no results, trying fallback matcher...');
+      matches = await productMatcher.findMatches(sourceProduct, deduplicatedProducts);
+
+      // Last resort: similar products
+      if (matches.length === 0) {
+        matches = await productMatcher.findSimilarProducts(sourceProduct, deduplicatedProducts);
+      }
+    }
+
+    // FINAL DEDUPLICATION: Keep only cheapest variant per site (safety net)
+    return deduplicateColorVariants(matches);
+  } catch (error) {
+    logger.error('Matching error:', error);
+    return [];
+  }
+}
+
+/**
+ * Search site with multiple query fallback (PARALLEL STRATEGY + CACHING)
+ */
+async function searchSiteWithFallback(
+  job: ComparisonJob,
+  site: string,
+  queries: string[],
+  _totalSites: number,
+  signal: AbortSignal
+): Promise<{ site: string; products: Product[]; successfulQuery: string } | null> {
+  const MIN_RESULTS = 2;
+  const MAX_PARALLEL_QUERIES = 3; // Try top 3 queries in parallel
+
+  // Try first 3 queries for cache check
+  const priorityQueries = queries.slice(0, MAX_PARALLEL_QUERIES);
+
+  // Check cache for all queries first (fast)
+  for (const query of priorityQueries) {
+    const cacheKey = smartCache.generateKey(site, query);
+    const cachedResult = await smartCache.get<Product[]>(cacheKey);
+    
+    if (cachedResult && cachedResult.length > 0) {
+      logger.info(`${site}: CACHE HIT`);
+      return {
+        site,
+        products: cachedResult,
+        successfulQuery: query
+      };
+    }
+  }
+
+  // PARALLEL STRATEGY: Try top 3 queries simultaneously
+  
+  const searchPromises = priorityQueries.map(async (query, index) => {
+    try {
+      const result = await searchSite(job, site, query, _totalSites, signal);
+      
+      if (result && result.products.length >= MIN_RESULTS) {
+        // Cache the results
+        const cacheKey = smartCache.generateKey(site, query);
+        await smartCache.set(cacheKey, result.products, 5 * 60 * 1000);
+        
+        return {
+          site,
+          products: result.products,
+          successfulQuery: query,
+          queryIndex: index
+        };
+      }
+      return null;
+    } catch (error) {
+      return null;
+    }
+  });
+
+  // Wait for first successful result or all to complete
+  const results = await Promise.all(searchPromises);
+  
+  // Find first successful result (prefer earlier queries)
+  const successfulResult = results.find(r => r !== null);
+  
+  if (successfulResult) {
+    return {
+      site: successfulResult.site,
+      products: successfulResult.products,
+      successfulQuery: successfulResult.successfulQuery
+    };
+  }
+
+  // If parallel queries failed, try remaining queries sequentially
+  const remainingQueries = queries.slice(MAX_PARALLEL_QUERIES, 5);
+  
+  for (let i = 0; i < remainingQueries.length; i++) {
+    const query = remainingQueries[i];
+
+    try {
+      const cacheKey = smartCache.generateKey(site, query);
+      const result = await searchSite(job, site, query, _totalSites, signal);
+      
+      if (result && result.products.length > 0) {
+        await smartCache.set(cacheKey, result.products, 5 * 60 * 1000);
+        
+        return { 
+          site, 
+          products: result.products,
+          successfulQuery: query 
+        };
+      }
+    } catch (error) {
+      // Continue to next query
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Search individual site (OPTIMIZED for speed)
+ */
+async function searchSite(
+  job: ComparisonJob,
+  site: string,
+  query: string,
+  _totalSites: number,
+  signal: AbortSignal
+): Promise<{ site: string; products: Product[] } | null> {
+  try {
+    // Waits for the site's rate limit and a free slot
+    const products = await scheduler.run(site, () => runSearch(job, site, query, signal), signal);
+    return products && { site, products };
+  } catch (error) {
+    // Blocked now, or paused after an earlier block
+    if (!isRateLimited(error)) throw error;
+    logger.warn(`${site}: ${error.message}`);
+    await updateSite(job, site, { error: error.message });
+    return null;
+  }
+}
+
+/**
+ * Run one search on a site: fetch mode first where supported, else a
+ * background tab. Null when the search itself failed.
+ */
+async function runSearch(
+  job: ComparisonJob,
+  site: string,
+  query: string,
+  signal: AbortSignal
+): Promise<Product[] | null> {
+  throwIfAborted(signal);
+  const adapter = getSiteAdapter(site);
+  const depth = adapter.getScrapeDepth();
+  
+  job.progress = `Searching ${adapter.config.name}...`;
+  await updateSite(job, site, { status: 'searching' });
+
+  // Server-rendered sites: fetch and parse without opening a tab
+  if (adapter.getSearchMode() === 'fetch') {
+    const fetched = await fetchSearchSite(site, query, signal);
+    if (fetched.length > 0) {
+      logger.info(`${site}: Found ${fetched.length} products (fetch mode)`);
+      return fetched;
+    }
+    logger.info(`${site}: fetch mode found nothing, falling back to tab`);
+  }
+
+  let tabId: number | undefined;
+
+  try {
+    const searchUrl = adapter.buildSearchUrl(query);
+
+    // Open tab in BACKGROUND (inactive, minimal visibility)
+    const tab = await chrome.tabs.create({ 
+      url: searchUrl, 
+      active: false,
+      selected: false, // Additional flag to ensure it stays in background
+    });
+
+    if (!tab.id) {
+      return null;
+    }
+    const searchTab = tab.id;
+    tabId = searchTab;
+    await trackSearchTab(job, tabId, true);
+    // Cancelled while the tab was opening: bail out so it gets closed below
+    throwIfAborted(signal);
+
+    // Wait for the page to load, for as long as this site usually needs
+    const loadPage = () =>
+      timePhase(site, 'load', signal, (timeout) => waitForTabLoad(searchTab, signal, timeout));
+    await loadPage();
+
+    await updateSite(job, site, { status: 'scraping' });
+    let response = await scrapeSearchTab(tabId, site, query, signal);
+    if (!response) {
+      return null;
+    }
+    if (response.blocked) {
+      throw new FineDealError('Search page is a bot check', ErrorCode.RATE_LIMIT, site);
+    }
+
+    let products = response.products;
+
+    // Paginated sites: follow "next page" until the page budget or early stop
+    for (let page = 2; page <= depth.maxPages && response?.nextPageUrl; page++) {
+      await setProgress(job, `Searching ${adapter.config.name} (page ${page})...`);
+      await chrome.tabs.update(tabId, { url: response.nextPageUrl });
+      await loadPage();
+
+      response = await scrapeSearchTab(tabId, site, query, signal);
+      if (!response) break;
+
+      products = mergeSearchResults(products, response.products, depth.maxResults);
+      logger.info(`${site}: ${products.length} products after page ${page}`);
+    }
+
+    logger.info(`${site}: Found ${products.length} products`);
+    return products;
+  } catch (error) {
+    if (isCancelled(error) || isRateLimited(error)) throw error;
+    logger.error(`Search error for ${site}:`, error);
+    await updateSite(job, site, {
+      error: error instanceof Error ? error.message : 'Search failed',
+    });
+    return null;
+  } finally {
+    // Close tab immediately
+    if (tabId !== undefined) {
+      await chrome.tabs.remove(tabId).catch(() => undefined);
+      await trackSearchTab(job, tabId, false);
+    }
+  }
+}
+
+/**
+ * Fetch and parse search results without a tab
+ */
+async function fetchSearchSite(
+  site: string,
+  query: string,
+  signal: AbortSignal
+): Promise<Product[]> {
+  try {
+    return (await timePhase(site, 'fetch', signal, (timeout) =>
+      withTimeout(fetchSearchResults(site, query, signal, timeout), timeout, `Fetch timeout for ${site}`, signal)
+    )) as Product[];
+  } catch (error) {
+    if (isCancelled(error) || isRateLimited(error)) throw error;
+    logger.warn(`Fetch search error for ${site}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Inject the content script into a loaded search tab and scrape it
+ */
+async function scrapeSearchTab(
+  tabId: number,
+  site: string,
+  query: string,
+  signal: AbortSignal
+): Promise<{ site: string; products: Product[]; nextPageUrl?: string | null; blocked?: boolean } | null> {
+  // Inject content script
+  try {
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      files: ['content-script.js'],
+    });
+  } catch (error) {
+    return null;
+  }
+
+  // SMART WAIT: Use intelligent page detection instead of fixed wait
+  // When it can't tell, settle for about as long as results usually take to render
+  const settle = () => sleep(Math.min(latencyTracker.typical(site, 'ready') ?? 1500, 3000), signal);
+  try {
+    const readyResponse = await timePhase(site, 'ready', signal, (timeout) =>
+      withTimeout(
+        sendTabMessage<{ ready: boolean }>(tabId, {
+          type: 'WAIT_FOR_PAGE_READY',
+          data: { site, timeout },
+        }),
+        timeout,
+        `Page ready timeout for ${site}`,
+        signal
+      )
+    );
+    
+    if (!readyResponse?.ready) {
+      await settle();
+    }
+  } catch (error) {
+    if (isCancelled(error)) throw error;
+    await settle();
+  }
+
+  // Scroll-to-load sites need longer; the timeout follows the site's history
+  return timePhase(site, 'scrape', signal, (timeout) =>
+    withTimeout(
+      sendTabMessage<{ site: string; products: Product[]; nextPageUrl?: string | null; blocked?: boolean }>(tabId, {
+        type: 'GET_SEARCH_RESULTS',
+        data: { site, query },
+      }),
+      timeout,
+      `Timeout for ${site}`,
+      signal
+    )
+  );
+}
+
+/**
+ * Wait for a tab to finish loading after navigation; rejects with CANCELLED
+ * when the comparison is cancelled
+ */
+function waitForTabLoad(tabId: number, signal: AbortSignal, timeout: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const listener = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+      if (updatedTabId === tabId && changeInfo.status === 'complete') {
+        settle();
+        resolve();
+      }
+    };
+    const timer = setTimeout(() => {
+      settle();
+      resolve();
+    }, timeout);
+    const cancel = () => {
+      settle();
+      reject(cancelledError());
+    };
+
+    function settle() {
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(listener);
+      signal.removeEventListener('abort', cancel);
+    }
+
+    chrome.tabs.onUpdated.addListener(listener);
+    signal.addEventListener('abort', cancel, { once: true });
+  });
+}
+
+/**
+ * Persist a job and stream it to an open popup, unless a newer job for the
+ * same tab has replaced it
+ */
+async function saveJob(job: ComparisonJob): Promise<void> {
+  if (activeJobs.get(job.tabId)?.job !== job) return;
+  await comparisonJobs.save(job);
+
+  const message: ChromeMessage<ComparisonJob> = {
+    type: job.status === 'running' ? 'UPDATE_PROGRESS' : 'COMPARISON_COMPLETE',
+    data: job,
+  };
+  // Rejects when no popup is open to receive it
+  await chrome.runtime.sendMessage(message).catch(() => undefined);
+}
+
+async function setProgress(job: ComparisonJob, progress: string): Promise<void> {
+  job.progress = progress;
+  await saveJob(job);
+}
+
+/**
+ * Update one site's entry in the progress grid
+ */
+async function updateSite(
+  job: ComparisonJob,
+  site: string,
+  update: Partial<Omit<ProgressUpdate, 'site'>>
+): Promise<void> {
+  const entry = job.sites.find((candidate) => candidate.site === site);
+  if (!entry) return;
+
+  const { status, ...details } = update;
+  Object.assign(entry, details);
+  if (status && SITE_STAGES.indexOf(status) > SITE_STAGES.indexOf(entry.status)) {
+    entry.status = status;
+  }
+  await saveJob(job);
+}
+
+/**
+ * Time one phase of a site search with a timeout taken from the site's
+ * history. A timeout is recorded as the full wait, so a site that keeps
+ * timing out is given longer; a slower-than-usual phase also tells the
+ * scheduler the browser is loaded.
+ */
+export async function timePhase<T>(
+  site: string,
+  phase: LatencyPhase,
+  signal: AbortSignal,
+  run: (timeout: number) => Promise<T>
+): Promise<T> {
+  const timeout = latencyTracker.timeoutFor(site, phase);
+  const started = Date.now();
+  const record = () => {
+    if (signal.aborted) return;
+    const elapsed = Math.min(Date.now() - started, timeout);
+    scheduler.reportLoad(latencyTracker.isSlow(site, phase, elapsed));
+    latencyTracker.record(site, phase, elapsed);
+  };
+
+  try {
+    const result = await run(timeout);
+    record();
+    return result;
+  } catch (error) {
+    if (error instanceof FineDealError && error.code === ErrorCode.TIMEOUT) record();
+    throw error;
+  }
+}
+
+/**
+ * Close every search tab a job still has open
+ */
+async function closeSearchTabs(job: ComparisonJob): Promise<void> {
+  const tabs = job.searchTabs;
+  job.searchTabs = [];
+  await Promise.all(tabs.map((tabId) => chrome.tabs.remove(tabId).catch(() => undefined)));
+}
+
+/**
+ * Record open search tabs so a restarted worker can close them
+ */
+async function trackSearchTab(job: ComparisonJob, tabId: number, open: boolean): Promise<void> {
+  job.searchTabs = open
+    ? [...job.searchTabs, tabId]
+    : job.searchTabs.filter((searchTab) => searchTab !== tabId);
+  await saveJob(job);
+}
+
+/**
+ * Send a message to a tab's content script
+ */
+async function sendTabMessage<T>(tabId: number, message: ChromeMessage): Promise<T> {
+  return new Promise((resolve, reject) => {
+    chrome.tabs.sendMessage(tabId, message, (response: T) => {
+      if (chrome.runtime.lastError) {
+        reject(chrome.runtime.lastError);
+      } else {
+        resolve(response);
+      }
+    });
+  });
+}
@@ -0,0 +1,130 @@
+import {
+  ChromeMessage,
+  ErrorCode,
+  ParseSearchRequest,
+  ParseSearchResult,
+  ScrapedProduct,
+} from '@/types';
+import { getSiteAdapter } from '@/adapters';
+import { latencyTracker } from '@/services/latency-tracker';
+import { selectorHealth } from '@/services/selector-health';
+import { FineDealError, throwIfAborted, withTimeout } from '@/utils/helpers';
+import { mergeSearchResults } from '@/utils/search-depth';
+import logger from '@/utils/logger';
+
+/**
+ * Fetch-mode Search
+ * Downloads server-rendered search pages and has the offscreen document
+ * parse them, so no browser tab is opened for the query.
+ */
+
+const OFFSCREEN_URL = 'offscreen.html';
+
+let creatingOffscreen: Promise<void> | null = null;
+
+/**
+ * Fetch and parse search results for a site, following pagination if
+ * configured. Each page gets `timeout`, by default the site's fetch timeout.
+ */
+export async function fetchSearchResults(
+  site: string,
+  query: string,
+  signal?: AbortSignal,
+  timeout = latencyTracker.timeoutFor(site, 'fetch')
+): Promise<ScrapedProduct[]> {
+  const adapter = getSiteAdapter(site);
+  const depth = adapter.getScrapeDepth();
+
+  let pageUrl: string | null = adapter.buildSearchUrl(query);
+  let products: ScrapedProduct[] = [];
+
+  for (let page = 1; pageUrl && page <= depth.maxPages; page++) {
+    const html = await fetchHtml(site, pageUrl, timeout, signal);
+    throwIfAborted(signal);
+    const result = await parseOffscreen({ site, html, pageUrl, query });
+
+    // A bot check on a later page keeps what the earlier pages found
+    if (result.blocked) {
+      if (products.length > 0) break;
+      throw new FineDealError('Search page is a bot check', ErrorCode.RATE_LIMIT, site, {
+        url: pageUrl,
+      });
+    }
+
+    selectorHealth.record(site, 'searchPage', result.report);
+    products = mergeSearchResults(products, result.products, depth.maxResults);
+    logger.info(`${site}: ${products.length} products fetched after page ${page}`);
+
+    // Only paginated sites return a next page
+    pageUrl = result.nextPageUrl;
+  }
+
+  return products;
+}
+
+async function fetchHtml(
+  site: string,
+  url: string,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await withTimeout(
+    fetch(url, { credentials: 'include', signal }),
+    timeout,
+    `Fetch timeout for ${site}`,
+    signal
+  );
+
+  // Throttled outright
+  if (response.status === 429 || response.status === 503) {
+    throw new FineDealError(
+      `Search fetch throttled with HTTP ${response.status}`,
+      ErrorCode.RATE_LIMIT,
+      site,
+      { url, status: response.status }
+    );
+  }
+
+  if (!response.ok) {
+    throw new FineDealError(
+      `Search fetch failed with HTTP ${response.status}`,
+      ErrorCode.NETWORK_ERROR,
+      site,
+      { url, status: response.status }
+    );
+  }
+
+  return response.text();
+}
+
+async function parseOffscreen(request: ParseSearchRequest): Promise<ParseSearchResult> {
+  await ensureOffscreenDocument();
+
+  const message: ChromeMessage<ParseSearchRequest> = { type: 'PARSE_SEARCH_HTML', data: request };
+  const result: ParseSearchResult | null = await chrome.runtime.sendMessage(message);
+
+  if (!result) {
+    throw new FineDealError('Offscreen parse failed', ErrorCode.SCRAPE_ERROR, request.site);
+  }
+  return result;
+}
+
+/**
+ * Create the offscreen document once; concurrent callers share the creation
+ */
+async function ensureOffscreenDocument(): Promise<void> {
+  if (await chrome.offscreen.hasDocument()) return;
+
+  if (!creatingOffscreen) {
+    creatingOffscreen = chrome.offscreen
+      .createDocument({
+        url: OFFSCREEN_URL,
+        reasons: [chrome.offscreen.Reason.DOM_PARSER],
+        justification: 'Parse fetched search result pages',
+      })
+      .finally(() => {
+        creatingOffscreen = null;
+      });
+  }
+  await creatingOffscreen;
+}
@@ -1,5 +1,8 @@
-import { ChromeMessage, AnalyticsEvent, PerformanceMetrics } from '@/types';
+import { ChromeMessage, AnalyticsEvent, PerformanceMetrics, StartComparisonRequest } from '@/types';
 import { cache } from '@/services/cache';
+import { selectorHealth } from '@/services/selector-health';
+import { comparisonJobs } from '@/services/comparison-jobs';
+import { cancelComparison, recoverInterruptedJobs, startComparison } from './comparison';
 import logger from '@/utils/logger';
 
 /**
@@ -9,12 +12,12 @@ import logger from '@/utils/logger';
 
 logger.info('FineDeal Service Worker Started');
 
+// A previous worker instance may have been stopped mid-comparison
+recoverInterruptedJobs().catch((error) => logger.warn('Job recovery failed:', error));
+
 // Analytics tracking
 const analytics: AnalyticsEvent[] = [];
 
-// Rate limiting
-const rateLimits = new Map<string, number>();
-
 /**
  * Installation event
  */
@@ -43,15 +46,28 @@ chrome.runtime.onInstalled.addListener((details) => {
 chrome.runtime.onMessage.addListener((
   request: ChromeMessage,
   sender,
-  _sendResponse
+  sendResponse
 ) => {
   logger.debug('Background message:', request.type);
 
   // Handle different message types
   switch (request.type) {
     case 'START_COMPARISON':
-      handleStartComparison(sender.tab?.id, request.data);
-      break;
+      handleStartComparison(request.data)
+        .then((jobId) => sendResponse({ jobId }))
+        .catch((error) => {
+          logger.error('Failed to start comparison:', error);
+          sendResponse({ error: String(error?.message || error) });
+        });
+      return true; // Keep channel open for async response
+    case 'CANCEL_COMPARISON':
+      cancelComparison(request.data.tabId)
+        .then((cancelled) => sendResponse({ cancelled }))
+        .catch((error) => {
+          logger.error('Failed to cancel comparison:', error);
+          sendResponse({ cancelled: false, error: String(error?.message || error) });
+        });
+      return true; // Keep channel open for async response
     case 'SHOW_PRICE_DROP_NOTIFICATION':
       if (request.data) {
         chrome.notifications.create({
@@ -62,6 +78,15 @@ chrome.runtime.onMessage.addListener((
         });
       }
       break;
+    case 'RECORD_SELECTOR_HEALTH':
+      if (request.data) {
+        selectorHealth.record(request.data.site, request.data.page, request.data.report);
+      }
+      break;
+    case 'PARSE_SEARCH_HTML':
+      return false; // Answered by the offscreen document
+    case 'PRODUCT_UPDATED':
+      return false; // For the popup, when open
     default:
       logger.warn('Unknown message type:', request.type);
   }
@@ -69,20 +94,32 @@ chrome.runtime.onMessage.addListener((
 });
 
 /**
- * Handle comparison start
+ * Handle comparison start: run the comparison as a job the popup can follow
  */
-async function handleStartComparison(tabId: number | undefined, data: any) {
-  if (!tabId) return;
-
+async function handleStartComparison(data: StartComparisonRequest): Promise<string> {
+  const { tabId, product } = data;
   logger.info('Starting comparison for tab:', tabId);
 
   // Track analytics
-  trackEvent('comparison_started', { tabId, product: data?.title });
+  trackEvent('comparison_started', { tabId, product: product.title });
 
   // Update stats
   updateStats('comparisons');
+
+  const job = await startComparison(tabId, product);
+  return job.id;
 }
 
+/**
+ * A comparison goes with the tab it was started from: closing the tab stops a
+ * running one and discards its results
+ */
+chrome.tabs.onRemoved.addListener((tabId) => {
+  cancelComparison(tabId)
+    .then(() => comparisonJobs.remove(tabId))
+    .catch(() => undefined);
+});
+
 /**
  * Track analytics event
  */
@@ -114,31 +151,6 @@ async function updateStats(key: string) {
   await chrome.storage.local.set({ stats });
 }
 
-/**
- * Check rate limit
- */
-function checkRateLimit(site: string, limitPerMinute = 10): boolean {
-  const now = Date.now();
-  const key = `${site}_${Math.floor(now / 60000)}`; // Per minute
-  
-  const count = rateLimits.get(key) || 0;
-  
-  if (count >= limitPerMinute) {
-    logger.warn(`Rate limit exceeded for ${site}`);
-    return false;
-  }
-  
-  rateLimits.set(key, count + 1);
-  
-  // Cleanup old entries
-  if (rateLimits.size > 100) {
-    const entries = Array.from(rateLimits.entries());
-    entries.slice(0, 50).forEach(([k]) => rateLimits.delete(k));
-  }
-  
-  return true;
-}
-
 /**
  * Performance monitoring
  */
@@ -165,4 +177,4 @@ setInterval(() => {
 }, 3600000); // Every hour
 
 // Export for testing
-export { trackEvent, checkRateLimit, logPerformanceMetrics };
+export { trackEvent, logPerformanceMetrics };
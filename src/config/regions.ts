@@ -0,0 +1,58 @@
+import { RegionCode, RegionConfig } from '@/types';
+
+/**
+ * Region configurations: currency and price notation per storefront country
+ */
+export const REGIONS: Record<RegionCode, RegionConfig> = {
+  IN: {
+    name: 'India',
+    currency: 'INR',
+    locale: 'en-IN',
+    decimalSeparator: '.',
+    fractionDigits: 0,
+    currencySymbols: ['₹', 'Rs.', 'Rs', 'INR'],
+  },
+  US: {
+    name: 'United States',
+    currency: 'USD',
+    locale: 'en-US',
+    decimalSeparator: '.',
+    fractionDigits: 2,
+    currencySymbols: ['US$', '$', 'USD'],
+  },
+  UK: {
+    name: 'United Kingdom',
+    currency: 'GBP',
+    locale: 'en-GB',
+    decimalSeparator: '.',
+    fractionDigits: 2,
+    currencySymbols: ['£', 'GBP'],
+  },
+  DE: {
+    name: 'Germany',
+    currency: 'EUR',
+    locale: 'de-DE',
+    decimalSeparator: ',',
+    fractionDigits: 2,
+    currencySymbols: ['€', 'EUR'],
+  },
+};
+
+export const DEFAULT_REGION: RegionCode = 'IN';
+
+// Prices are compared and shown in this currency
+export const HOME_CURRENCY = REGIONS[DEFAULT_REGION].currency;
+
+/**
+ * Get region config, India when omitted
+ */
+export function getRegion(code: RegionCode = DEFAULT_REGION): RegionConfig {
+  return REGIONS[code];
+}
+
+/**
+ * Get the region that uses a currency
+ */
+export function getRegionForCurrency(currency: string): RegionConfig | undefined {
+  return Object.values(REGIONS).find((region) => region.currency === currency);
+}
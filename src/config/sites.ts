@@ -1,4 +1,66 @@
-import { SiteConfig } from '@/types';
+import { RegionCode, SiteConfig, SiteSelectors } from '@/types';
+import { DEFAULT_REGION } from './regions';
+
+/**
+ * Amazon markup is shared by every storefront
+ */
+const AMAZON_SELECTORS: SiteSelectors = {
+  productPage: {
+    title: ['#productTitle', 'h1.product-title', 'span#productTitle'],
+    price: ['.a-price-whole', '.a-price .a-offscreen', 'span.a-price-whole', '.a-price-range .a-price .a-offscreen'],
+    image: ['#landingImage', '.a-dynamic-image', 'img#landingImage'],
+    productId: ['[data-asin]'],
+    brand: ['#bylineInfo', '.a-size-base.po-break-word', 'a#bylineInfo'],
+    mrp: ['.a-price.a-text-price .a-offscreen', '.basisPrice .a-offscreen', '#listPrice', '.priceBlockStrikePriceString'],
+    seller: { name: ['#sellerProfileTriggerId', '#merchant-info a', '#merchantInfoFeature_feature_div .offer-display-feature-text-message'], fulfilled: ['#fulfillerInfoFeature_feature_div [data-fba="true"]', 'i.a-icon-prime'], container: ['#tabular-buybox, #merchant-info, #merchantInfoFeature_feature_div, #fulfillerInfoFeature_feature_div'] },
+    delivery: ['#mir-layout-DELIVERY_BLOCK', '#deliveryBlockMessage', '#delivery-message'],
+    offers: ['#itembox-InstantBankDiscount .offers-items-content, .offers-items-content, #couponText', '#sopp_feature_div .a-carousel-card'],
+    rating: ['#acrPopover .a-icon-alt', 'span[data-hook="rating-out-of-text"]', '#averageCustomerReviews .a-icon-alt'],
+    reviewCount: ['#acrCustomerReviewText', '[data-hook="total-review-count"]'],
+    variant: { color: ['#variation_color_name .selection', '#inline-twister-expanded-dimension-text-color_name'], size: ['#variation_size_name .selection', '#inline-twister-expanded-dimension-text-size_name'], storage: ['#variation_style_name .selection', '#inline-twister-expanded-dimension-text-style_name'] },
+    specs: ['#productDetails_techSpec_section_1, #productDetails_detailBullets_sections1', '#detailBullets_feature_div ul', '#tech table'],
+    condition: ['#renewedProgramDescriptionAtf', '#renewedTier1Badge_feature_div'],
+  },
+  searchPage: {
+    container: ['div[data-component-type="s-search-result"]', 'div[data-asin]:not([data-asin=""])'],
+    title: ['h2 a span', 'h2 span.a-text-normal', '.a-text-normal', 'h2.a-size-mini span'],
+    price: ['.a-price-whole', 'span.a-price-whole', '.a-price .a-offscreen'],
+    image: ['img.s-image', 'img[data-image-latency]'],
+    link: ['h2 a', 'a.a-link-normal.s-no-outline'],
+    productId: ['[data-asin]'],
+    mrp: ['.a-price.a-text-price .a-offscreen', '.a-text-price .a-offscreen'],
+    seller: { fulfilled: ['i.a-icon-prime', '.s-prime'] },
+    delivery: ['[data-cy="delivery-recipe"]', '.udm-primary-delivery-message'],
+    offers: ['.s-coupon-unclipped, [data-component-type="s-coupon-component"]'],
+    rating: ['.a-icon-star-small .a-icon-alt', 'i[class*="a-star"] .a-icon-alt'],
+    reviewCount: ['a[href*="customerReviews"] .s-underline-text', '.s-link-style .s-underline-text', '[aria-label$="ratings"]'],
+    sponsored: ['.puis-sponsored-label-text', '.s-sponsored-label-text', '[data-component-type="sp-sponsored-result"]'],
+  },
+};
+
+/**
+ * Amazon outside India. The whole-number price span drops the cents
+ * there, so the full price in `.a-offscreen` is read first.
+ */
+function amazonStorefront(name: string, origin: string, region: RegionCode, priority: number): SiteConfig {
+  const { productPage, searchPage } = AMAZON_SELECTORS;
+  return {
+    name,
+    badge: 'amazon-badge',
+    searchUrl: `${origin}/s?k=`,
+    enabled: true,
+    priority,
+    region,
+    fulfilmentBadge: 'fba',
+    searchMode: 'fetch',
+    scraping: { mode: 'paginated', maxResults: 40, nextPage: ['a.s-pagination-next', '.s-pagination-item.s-pagination-next'] },
+    rateLimit: { burst: 3, perMinute: 6 }, // Quick to serve CAPTCHAs to bursts
+    selectors: {
+      productPage: { ...productPage, price: ['#corePrice_feature_div .a-price .a-offscreen', '#corePriceDisplay_desktop_feature_div .a-price .a-offscreen', '#apex_desktop .a-price .a-offscreen', ...productPage.price] },
+      searchPage: { ...searchPage, price: ['.a-price .a-offscreen', ...searchPage.price] },
+    },
+  };
+}
 
 /**
  * Site configurations with selectors
@@ -10,23 +72,11 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
     searchUrl: 'https://www.amazon.in/s?k=',
     enabled: true,
     priority: 1,
-    selectors: {
-      productPage: {
-        title: ['#productTitle', 'h1.product-title', 'span#productTitle'],
-        price: ['.a-price-whole', '.a-price .a-offscreen', 'span.a-price-whole', '.a-price-range .a-price .a-offscreen'],
-        image: ['#landingImage', '.a-dynamic-image', 'img#landingImage'],
-        productId: ['[data-asin]'],
-        brand: ['#bylineInfo', '.a-size-base.po-break-word', 'a#bylineInfo'],
-      },
-      searchPage: {
-        container: ['div[data-component-type="s-search-result"]', 'div[data-asin]:not([data-asin=""])'],
-        title: ['h2 a span', 'h2 span.a-text-normal', '.a-text-normal', 'h2.a-size-mini span'],
-        price: ['.a-price-whole', 'span.a-price-whole', '.a-price .a-offscreen'],
-        image: ['img.s-image', 'img[data-image-latency]'],
-        link: ['h2 a', 'a.a-link-normal.s-no-outline'],
-        productId: ['[data-asin]'],
-      },
-    },
+    fulfilmentBadge: 'fba',
+    searchMode: 'fetch', // Server-rendered search pages
+    scraping: { mode: 'paginated', maxResults: 40, nextPage: ['a.s-pagination-next', '.s-pagination-item.s-pagination-next'] },
+    rateLimit: { burst: 3, perMinute: 6 }, // Quick to serve CAPTCHAs to bursts
+    selectors: AMAZON_SELECTORS,
   },
   flipkart: {
     name: 'Flipkart',
@@ -34,6 +84,10 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
     searchUrl: 'https://www.flipkart.com/search?q=',
     enabled: true,
     priority: 2,
+    fulfilmentBadge: 'assured',
+    searchMode: 'fetch', // Server-rendered search pages
+    scraping: { mode: 'infinite-scroll', maxResults: 40, maxScrolls: 3 },
+    rateLimit: { burst: 3, perMinute: 6 },
     selectors: {
       productPage: {
         title: ['span.VU-ZEz', '.VU-ZEz', '.B_NuCI', 'h1.B_NuCI', 'span.B_NuCI', 'h1', '[class*="title"]'],
@@ -41,6 +95,14 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['._396cs4', '._53J4C- img', '.CXW8mj img', '._396cs4 img', 'img[class*="image"]'],
         productId: ['[data-id]', '[data-tkid]', '[data-product-id]'],
         brand: ['span._1Us2sh', '._1Us2sh', '.fMghEO span', '.fMghEO'],
+        mrp: ['.yRaY8j', '._3I9_wc', '[class*="strike"]'],
+        seller: { name: ['#sellerName span span', '#sellerName span', '#sellerName'], rating: ['#sellerName .XQDdHH', '#sellerName [class*="rating"]'], fulfilled: ['img[src*="fa_62673a"]', 'img[src*="fa_9e47c1"]'], container: ['#sellerName'] },
+        delivery: ['.hVvnXm', '._3XINqE', '.Y8v7Fl'],
+        offers: ['li.kF1Ml8', 'li._16eBzU', '.XUp0WS li'],
+        rating: ['._5OesEi .XQDdHH', '.ipqd2A .XQDdHH', '._3LWZlK'],
+        reviewCount: ['._5OesEi .Wphh3N span', '.Wphh3N span', '._2_R_DZ span'],
+        variant: { color: ['li[id$="-color"] a.dpZEpc', 'li[id$="-color"] [aria-checked="true"]'], storage: ['li[id$="-storage"] a.dpZEpc', 'li[id$="-storage"] [aria-checked="true"]'], ram: ['li[id$="-ram"] a.dpZEpc', 'li[id$="-ram"] [aria-checked="true"]'], size: ['li[id$="-size"] a.dpZEpc'] },
+        specs: ['._0ZhAN9', 'table._14cfVK', '.GNDEQ- table'],
       },
       searchPage: {
         container: ['div[data-id]', '._1AtVbE', '._13oc-S', 'div._1xHGtK', '[class*="product"]'],
@@ -48,6 +110,10 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         price: ['.Nx9bqj', 'div.Nx9bqj', '._30jeq3', 'div._30jeq3', '._3tbKJL', '[class*="price"]'],
         image: ['img._2r_T1I', 'img._396cs4', 'img[class*="image"]', 'img'],
         link: ['a._1fQZEK', 'a.s1Q9rs', 'a._2rpwqI', 'a.IRpwTa', 'a[href*="/p/"]', 'a'],
+        mrp: ['.yRaY8j', '._3I9_wc'],
+        seller: { fulfilled: ['img[src*="fa_62673a"]', 'img[src*="fa_9e47c1"]'] },
+        rating: ['.XQDdHH', '._3LWZlK'],
+        reviewCount: ['.Wphh3N', '._2_R_DZ'],
       },
     },
   },
@@ -57,6 +123,7 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
     searchUrl: 'https://www.myntra.com/search?q=',
     enabled: false, // Temporarily disabled - needs better selectors
     priority: 3,
+    scraping: { mode: 'paginated', maxResults: 40, nextPage: ['li.pagination-next a', 'a[rel="next"]'] },
     selectors: {
       productPage: {
         title: ['.pdp-title', '.pdp-name', 'h1.pdp-name', 'h1.pdp-title', '[class*="pdp-title"]', '[class*="pdp-name"]', 'h1'],
@@ -64,6 +131,13 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['.image-grid-image', 'img.image-grid-image', '.pdp-image', 'img[class*="image-grid"]', 'img'],
         productId: ['[data-productid]', '[data-product-id]', '[data-skuid]'],
         brand: ['.pdp-title', '.pdp-brand', 'h1.pdp-brand', '[class*="brand"]', '[class*="pdp-brand"]'],
+        mrp: ['.pdp-mrp s', '.pdp-mrp', '[class*="pdp-mrp"]'],
+        delivery: ['.pdp-delivery', '.pincode-serviceability-list'],
+        offers: ['.pdp-offers-offerDesc, .pdp-offers-offerTitle', '[class*="offers-offer"]'],
+        rating: ['.index-overallRating div', '[class*="overallRating"] div'],
+        reviewCount: ['.index-ratingsCount', '[class*="ratingsCount"]'],
+        variant: { size: ['.size-buttons-size-button-selected', '[class*="size-button-selected"]'] },
+        specs: ['.index-tableContainer', '[class*="tableContainer"]'],
       },
       searchPage: {
         container: ['.product-base', 'li.product-base', '.product-productMetaInfo', '[class*="product-base"]', 'li[class*="product"]'],
@@ -72,6 +146,7 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['img.img-responsive', 'img[class*="img-responsive"]', 'picture img', 'img'],
         link: ['a', 'a[href*="/"]', '[class*="product"] a'],
         productId: ['[data-productid]', '[data-product-id]', '[data-skuid]'],
+        mrp: ['.product-strike', '[class*="strike"]'],
       },
     },
   },
@@ -81,6 +156,9 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
     searchUrl: 'https://www.snapdeal.com/search?keyword=',
     enabled: true,
     priority: 4,
+    fulfilmentBadge: 'plus',
+    searchMode: 'fetch', // Server-rendered search pages
+    scraping: { mode: 'infinite-scroll', maxResults: 40, maxScrolls: 2 },
     selectors: {
       productPage: {
         title: ['.pdp-e-i-head', 'h1.pdp-e-i-head', '.title-section h1', '[itemprop="name"]', 'h1', '[class*="pdp-e-i-head"]'],
@@ -88,6 +166,11 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['#bx-img', 'img#bx-img', '.mainImageWrapper img', '.product-image img', 'img[itemprop="image"]', 'img'],
         productId: ['[data-productid]', '[data-product-id]', '[id*="product"]', '[data-pid]'],
         brand: ['[itemprop="brand"]', '.h2', '.pdp-e-i-brand', '[class*="brand"]'],
+        mrp: ['.pdpCutPrice', '.pdp-e-i-MRP', '[class*="CutPrice"]'],
+        seller: { name: ['#sellerName', '.pdp-seller-info a', '[class*="seller-name"]'], rating: ['.pdp-seller-rating', '[class*="seller-rating"]'], fulfilled: ['.sd-plus-icon', 'img[src*="sdplus"]'], container: ['.pdp-seller-info'] },
+        delivery: ['.pdp-delivery-date', '.delivery-info'],
+        offers: ['.offer-desc', '.pdp-offers li'],
+        specs: ['.spec-body table', '.dtls-list'],
       },
       searchPage: {
         container: ['.product-tuple-listing', 'div.product-tuple-listing', '.col-xs-6', '[class*="product-tuple"]', '.product'],
@@ -96,6 +179,8 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['img.product-image', 'source[srcset]', 'picture img', 'img'],
         link: ['a[href*="/product/"]', 'a.dp-widget-link', '.product-tuple-listing a', 'a'],
         productId: ['[data-productid]', '[data-product-id]', '[id*="product"]', '[data-pid]'],
+        mrp: ['.product-desc-price', '.strike'],
+        seller: { fulfilled: ['.sd-plus-icon', 'img[src*="sdplus"]'] },
       },
     },
   },
@@ -105,6 +190,7 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
     searchUrl: 'https://www.tatacliq.com/search/?searchCategory=all&text=',
     enabled: true,
     priority: 5,
+    scraping: { mode: 'infinite-scroll', maxResults: 40, maxScrolls: 2 },
     selectors: {
       productPage: {
         title: ['h1.ProductDetailsMainCard__productName', '.ProductDetailsMainCard__productName', '[class*="productName"]', 'h1', '[class*="title"]'],
@@ -112,6 +198,11 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['.ProductDetailsMainCard__productImage', 'img[class*="productImage"]', 'picture img', 'img'],
         productId: ['[data-productid]', '[data-product-id]', '[data-sku]'],
         brand: ['.ProductDetailsMainCard__brandName', '[class*="brandName"]', '[class*="brand"]'],
+        mrp: ['.ProductDetailsMainCard__cancelPrice', '[class*="cancelPrice"]'],
+        delivery: ['.DeliveryInformation__text', '[class*="DeliveryInformation"]'],
+        offers: ['[class*="BankOffer"] li', '[class*="OfferCard"]'],
+        variant: { color: ['[class*="ColourSelect"] [class*="selected"]'], size: ['[class*="SizeSelect"] [class*="selected"]'] },
+        specs: ['.ProductDetailsMainCard__details table', '[class*="Specification"] table', '[class*="specification"] ul'],
       },
       searchPage: {
         container: ['.ProductModule__base', 'div[class*="ProductModule"]', '.SearchModule__listingContainer > div', '[class*="product"]'],
@@ -120,6 +211,7 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['img[class*="ProductModule"]', 'picture img', 'img'],
         link: ['a[href*="/"]', 'a[class*="ProductModule"]', 'a'],
         productId: ['[data-productid]', '[data-product-id]', '[data-sku]'],
+        mrp: ['.ProductDescription__priceCancelled', '[class*="cancelPrice"]', '[class*="Cancelled"]'],
       },
     },
   },
@@ -129,6 +221,7 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
     searchUrl: 'https://www.ajio.com/search/?text=',
     enabled: true,
     priority: 6,
+    scraping: { mode: 'infinite-scroll', maxResults: 40, maxScrolls: 2 },
     selectors: {
       productPage: {
         title: ['.prod-title', 'h1.prod-title', '.pdp-title', '[class*="prod-title"]', 'h1'],
@@ -136,6 +229,11 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['.prod-image-container img', 'img[class*="prod-image"]', 'picture img', 'img'],
         productId: ['[data-productid]', '[data-product-code]', '[data-sku]'],
         brand: ['.prod-brand', 'span[class*="brand"]', '[class*="brand"]'],
+        mrp: ['.prod-cp', '[class*="prod-cp"]'],
+        delivery: ['.edd-message', '.delivery-info'],
+        offers: ['.promo-blck .promo-title', '.promo-desc'],
+        variant: { color: ['.color-swatch .selected', '.colorSwatch .selected img'], size: ['.size-swatch .selected', '.size-variant-item.selected'] },
+        specs: ['.prod-list', '.prod-desc ul'],
       },
       searchPage: {
         container: ['.item', '.rilrtl-products-list__item', 'div[class*="item"]', '[class*="product"]'],
@@ -144,6 +242,7 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['img[class*="img"]', 'picture img', 'img'],
         link: ['a[href*="/p/"]', 'a[class*="product"]', 'a'],
         productId: ['[data-productid]', '[data-product-code]', '[data-sku]'],
+        mrp: ['.orginal-price', '.original-price', '[class*="orginal"]'],
       },
     },
   },
@@ -153,6 +252,7 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
     searchUrl: 'https://www.nykaa.com/search/result/?q=',
     enabled: true,
     priority: 7,
+    scraping: { mode: 'infinite-scroll', maxResults: 40, maxScrolls: 3 },
     selectors: {
       productPage: {
         title: ['.product-title', 'h1[class*="product"]', 'h1', '[class*="title"]'],
@@ -160,6 +260,13 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['.product-image', 'img[class*="product"]', 'picture img', 'img'],
         productId: ['[data-productid]', '[data-product-id]', '[data-id]'],
         brand: ['.product-brand', '[class*="brand"]'],
+        mrp: ['[class*="mrp"]', 'span[class*="strike"]'],
+        delivery: ['[class*="delivery-info"]', '[class*="edd"]'],
+        offers: ['[class*="offer-desc"]', '[class*="offers"] li'],
+        rating: ['.css-1m0y15j', '[class*="rating-value"]'],
+        reviewCount: ['.css-1hvvm95', '[class*="rating-count"]'],
+        variant: { color: ['[class*="shade"] [class*="selected"]', 'button[aria-selected="true"] img'], size: ['[class*="size-selector"] [class*="selected"]'] },
+        specs: ['#content-details table', '[class*="specification"] table'],
       },
       searchPage: {
         container: ['.css-xrzmfa', '.productWrapper', 'div[class*="product"]', 'article'],
@@ -168,6 +275,9 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['img[class*="css"]', 'picture img', 'img'],
         link: ['a[href*="/"]', 'a'],
         productId: ['[data-productid]', '[data-product-id]', '[data-id]'],
+        mrp: ['.css-17x46n5', '[class*="mrp"]'],
+        rating: ['.css-1qbvrhp .css-vo8h3h', '[class*="ratingStar"] + span'],
+        reviewCount: ['.css-1qbvrhp .css-1ckjr2p', '[class*="rating-count"]'],
       },
     },
   },
@@ -184,6 +294,13 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['.product-image', 'img[class*="product"]', 'picture img', 'img'],
         productId: ['[data-product-id]', '[data-productid]', '[data-sku]'],
         brand: ['.pd-brand', '[class*="brand"]'],
+        mrp: ['.old-price .amount', '#old-price', '.old-price'],
+        delivery: ['.delivery-text', '.pdp-delivery-info', '[class*="delivery"]'],
+        offers: ['.offer-section li', '[class*="bank-offer"]'],
+        rating: ['.cp-rating .rating-text', '#review-summary .avg-rating'],
+        reviewCount: ['.cp-rating .rating-count', '#review-summary .review-count'],
+        variant: { color: ['.color-variant .active', '[class*="variant"] [class*="color"].active'], storage: ['.capacity-variant .active', '[class*="variant"] [class*="storage"].active'] },
+        specs: ['#specification_container ul', '.cp-specification ul', '[class*="specification"] table'],
       },
       searchPage: {
         container: ['.product-item', '.plp-card', 'div[class*="product"]', 'article'],
@@ -192,6 +309,10 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['img[class*="product"]', 'picture img', 'img'],
         link: ['a[href*="/"]', 'a'],
         productId: ['[data-product-id]', '[data-productid]', '[data-sku]'],
+        mrp: ['.old-price .amount', '.old-price'],
+        delivery: ['.delivery-text', '[class*="delivery"]'],
+        rating: ['.cp-rating .rating-text', '.rating-text'],
+        reviewCount: ['.cp-rating .rating-count', '.rating-count'],
       },
     },
   },
@@ -208,6 +329,10 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['.product-image', 'img[class*="product"]', 'picture img', 'img'],
         productId: ['[data-product-id]', '[data-productid]', '[data-sku]'],
         brand: ['.product-brand', '[class*="brand"]'],
+        mrp: ['.price-old', '.old-price', '.mrp'],
+        delivery: ['.delivery-info', '[class*="delivery"]'],
+        offers: ['.bank-offers li', '[class*="offer"] li'],
+        specs: ['.product-specifications table', '#specification table', '[class*="specification"] ul'],
       },
       searchPage: {
         container: ['.product-item', '.product-layout', '.product-thumb', 'div[class*="product"]', 'article'],
@@ -216,27 +341,129 @@ export const SITE_CONFIGS: Record<string, SiteConfig> = {
         image: ['img[class*="img"]', 'picture img', 'img'],
         link: ['a[href*="/"]', 'a'],
         productId: ['[data-product-id]', '[data-productid]', '[data-sku]'],
+        mrp: ['.price-old', '.old-price'],
+      },
+    },
+  },
+  reliancedigital: {
+    name: 'Reliance Digital',
+    badge: 'reliancedigital-badge',
+    searchUrl: 'https://www.reliancedigital.in/products?q=',
+    enabled: true,
+    priority: 10,
+    categories: ['electronics'],
+    selectors: {
+      productPage: {
+        title: ['h1.product-name', '.pdp__title', 'h1[class*="title"]', 'h1'],
+        price: ['.product-price .amount', '.pdp__offerPrice', '[class*="offerPrice"]', '[class*="selling-price"]'],
+        image: ['.pdp-image img', '.pdp__imgWrapper img', 'img[class*="pdp"]', 'picture img'],
+        productId: ['[data-article-id]', '[data-sku]', '[data-product-id]'],
+        brand: ['.product-brand', '[class*="brand-name"]'],
+        mrp: ['.product-marked-price .amount', '.pdp__mrpPrice', '[class*="mrpPrice"]'],
+        delivery: ['.delivery-details', '.pdp__deliveryInfo', '[class*="delivery"]'],
+        offers: ['.bank-offers li', '.pdp__offerList li', '[class*="offer"] li'],
+        rating: ['.product-rating .rating-value', '[class*="rating-value"]'],
+        reviewCount: ['.product-rating .rating-count', '[class*="rating-count"]'],
+        specs: ['.specifications-list', '.pdp__tab-info table', '[class*="specification"] ul'],
+      },
+      searchPage: {
+        container: ['.product-card', '.sp__product', 'li[class*="grid"]', '[class*="product-card"]'],
+        title: ['.product-card-title', '.sp__name', '[class*="title"]', '[class*="name"]'],
+        price: ['.price-container .price', '.sp__price', '[class*="price"]'],
+        image: ['.product-card-image img', 'img.productImg', 'picture img', 'img'],
+        link: ['a[href*="/product/"]', 'a[href*="/p/"]', 'a'],
+        productId: ['[data-article-id]', '[data-sku]', '[data-product-id]'],
+        mrp: ['.price-container .mrp-amount', '.sp__mrpPrice', '[class*="mrp"]'],
       },
     },
   },
+  jiomart: {
+    name: 'JioMart',
+    badge: 'jiomart-badge',
+    searchUrl: 'https://www.jiomart.com/search/',
+    enabled: true,
+    priority: 11,
+    categories: ['grocery', 'beauty'],
+    selectors: {
+      productPage: {
+        title: ['#pdp_product_name', 'h1.product-header-name', '.product-header-name', 'h1'],
+        price: ['#price_section .jm-heading-xs', '.product-price .jm-heading-xs', '[class*="final-price"]', '[class*="price"]'],
+        image: ['#product-image', '.product-image-carousel img', '.swiper-slide img', 'img'],
+        productId: ['[data-sku]', '[data-product-id]', '[data-objid]'],
+        brand: ['#top_brand_name', '.product-header-brand', '[class*="brand"]'],
+        mrp: ['#price_section .line-through', '.product-price .line-through', '[class*="mrp"]'],
+        delivery: ['#delivery_section', '.product-delivery', '[class*="delivery"]'],
+        offers: ['.product-offers-list li', '#offer_section li'],
+        specs: ['.product-specifications table', '#pdp_specification table', '.product-info-list'],
+      },
+      searchPage: {
+        container: ['li.ais-InfiniteHits-item', '.plp-card-wrapper', '[class*="plp-card"]'],
+        title: ['.plp-card-details-name', '[class*="details-name"]', '[class*="title"]'],
+        price: ['.plp-card-details-price .jm-heading-xxs', '.plp-card-details-price span', '[class*="price"]'],
+        image: ['.plp-card-image img', 'img'],
+        link: ['a.plp-card-wrapper', 'a[href*="/p/"]', 'a'],
+        productId: ['[data-sku]', '[data-objid]', '[data-product-id]'],
+        mrp: ['.plp-card-details-price .line-through', '[class*="line-through"]'],
+      },
+    },
+  },
+  // Shares amazon.in with the main store, so pages there resolve to `amazon`;
+  // this entry only searches the Fresh grocery catalogue
+  amazonfresh: {
+    name: 'Amazon Fresh',
+    badge: 'amazonfresh-badge',
+    searchUrl: 'https://www.amazon.in/s?i=nowstore&k=',
+    enabled: true,
+    priority: 12,
+    categories: ['grocery'],
+    fulfilmentBadge: 'fba',
+    searchMode: 'fetch', // Server-rendered search pages
+    scraping: { mode: 'paginated', maxResults: 40, nextPage: ['a.s-pagination-next', '.s-pagination-item.s-pagination-next'] },
+    rateLimit: { burst: 3, perMinute: 6 }, // Quick to serve CAPTCHAs to bursts
+    selectors: AMAZON_SELECTORS,
+  },
+  amazon_us: amazonStorefront('Amazon US', 'https://www.amazon.com', 'US', 13),
+  amazon_uk: amazonStorefront('Amazon UK', 'https://www.amazon.co.uk', 'UK', 14),
+  amazon_de: amazonStorefront('Amazon DE', 'https://www.amazon.de', 'DE', 15),
 };
 
 /**
- * Get enabled sites sorted by priority
+ * Get enabled sites sorted by priority, optionally only those in some regions
+ * and those selling a product category
  */
-export function getEnabledSites(): string[] {
+export function getEnabledSites(regions?: RegionCode[], category?: string): string[] {
   return Object.entries(SITE_CONFIGS)
     .filter(([_, config]) => config.enabled)
+    .filter(([_, config]) => !regions || regions.includes(config.region || DEFAULT_REGION))
+    .filter(([_, config]) => !category || siteSellsCategory(config, category))
     .sort((a, b) => a[1].priority - b[1].priority)
     .map(([key]) => key);
 }
 
+/**
+ * Whether a site sells a category from `detectCategory`. Sites without a
+ * category list, and products of unknown ('general') category, always match.
+ */
+export function siteSellsCategory(config: SiteConfig, category: string): boolean {
+  if (!config.categories || category === 'general') return true;
+  return config.categories.some((sold) => category === sold || category.startsWith(`${sold}-`));
+}
+
+/**
+ * Whether a hostname is the site's storefront domain or a subdomain of it
+ * (amazon.in and amazon.com are different sites)
+ */
+export function hostnameMatchesSite(hostname: string, config: SiteConfig): boolean {
+  const siteHost = new URL(config.searchUrl).hostname.replace(/^www\./, '');
+  return hostname === siteHost || hostname.endsWith(`.${siteHost}`);
+}
+
 /**
  * Get site config by hostname
  */
 export function getSiteFromHostname(hostname: string): string | null {
-  for (const [key] of Object.entries(SITE_CONFIGS)) {
-    if (hostname.includes(key)) {
+  for (const [key, config] of Object.entries(SITE_CONFIGS)) {
+    if (hostnameMatchesSite(hostname, config)) {
       return key;
     }
   }
@@ -1,10 +1,27 @@
-import { Product, ScrapedProduct, ChromeMessage } from '@/types';
-import { getSiteFromHostname, SITE_CONFIGS } from '@/config/sites';
-import { parsePrice, extractBrand, detectCategory } from '@/utils/product';
-import { extractProductNumbers } from '@/utils/product-number-extractor';
-import { isProductAvailable, checkAvailability } from '@/utils/availability-checker';
+import {
+  Product,
+  ScrapedProduct,
+  ChromeMessage,
+  SelectorPage,
+  SelectorTrace,
+  SiteAdapter,
+} from '@/types';
+import { getAdapterForHostname, getAdapterForPage } from '@/adapters';
+import { SelectorTraceCollector } from '@/services/selector-health';
+import { hasEnoughResults, mergeSearchResults } from '@/utils/search-depth';
+import { extractSelectedVariant } from '@/utils/variant';
+import { getElementText } from '@/utils/dom';
+import { isBlockedPage } from '@/utils/blocked-page';
+import { formatPrice } from '@/utils/product';
 import logger from '@/utils/logger';
 
+// Set once this script has wired itself into the page
+declare global {
+  interface Window {
+    finedealContentScriptLoaded?: boolean;
+  }
+}
+
 /**
  * Content Script - Runs on e-commerce site pages
  * Handles product extraction and search results scraping
@@ -66,50 +83,58 @@ async function waitForPageReady(selectors: string[], timeout = 6000): Promise<bo
   return false;
 }
 
-// Message listener
-chrome.runtime.onMessage.addListener(
-  (request: ChromeMessage, _sender, sendResponse) => {
-    logger.debug('Message received:', request.type);
+// The manifest injects this script on every marketplace page and comparison
+// injects it again into search tabs; only the first copy may listen
+if (window.finedealContentScriptLoaded) {
+  logger.debug('Content script already loaded on this page');
+} else {
+  window.finedealContentScriptLoaded = true;
+
+  // Message listener
+  chrome.runtime.onMessage.addListener(
+    (request: ChromeMessage, _sender, sendResponse) => {
+      logger.debug('Message received:', request.type);
+
+      if (request.type === 'GET_PRODUCT_INFO') {
+        handleGetProductInfo(sendResponse);
+        return true; // Keep channel open for async response
+      }
 
-    if (request.type === 'GET_PRODUCT_INFO') {
-      handleGetProductInfo(sendResponse);
-      return true; // Keep channel open for async response
-    }
+      if (request.type === 'GET_SEARCH_RESULTS') {
+        handleGetSearchResults(request.data?.site, request.data?.query, sendResponse);
+        return true;
+      }
 
-    if (request.type === 'GET_SEARCH_RESULTS') {
-      handleGetSearchResults(sendResponse);
-      return true;
-    }
+      if (request.type === 'WAIT_FOR_PAGE_READY') {
+        handleWaitForPageReady(request.data?.site, request.data?.timeout, sendResponse);
+        return true;
+      }
 
-    if (request.type === 'WAIT_FOR_PAGE_READY') {
-      handleWaitForPageReady(sendResponse);
-      return true;
+      return false;
     }
+  );
 
-    return false;
-  }
-);
+  watchVariantSelection();
+}
 
 /**
  * Wait for page to be ready with smart detection
  */
-async function handleWaitForPageReady(sendResponse: (response: { ready: boolean }) => void) {
+async function handleWaitForPageReady(
+  site: string | undefined,
+  timeout: number | undefined,
+  sendResponse: (response: { ready: boolean }) => void
+) {
   try {
-    const hostname = window.location.hostname;
-    const site = getSiteFromHostname(hostname);
+    const adapter = getAdapterForPage(site, window.location.hostname);
     
-    if (!site) {
+    if (!adapter) {
       sendResponse({ ready: false });
       return;
     }
     
-    const config = SITE_CONFIGS[site];
-    const selectors = [
-      ...config.selectors.searchPage.container,
-      ...config.selectors.searchPage.price
-    ];
-    
-    const ready = await waitForPageReady(selectors);
+    // The service worker sends the site's adaptive ready timeout
+    const ready = await waitForPageReady(adapter.getReadySelectors(), timeout);
     sendResponse({ ready });
   } catch (error) {
     logger.error('Error waiting for page ready:', error);
@@ -123,10 +148,9 @@ async function handleWaitForPageReady(sendResponse: (response: { ready: boolean
 function handleGetProductInfo(sendResponse: (response: Product) => void) {
   try {
 
-    const hostname = window.location.hostname;
-    const site = getSiteFromHostname(hostname);
+    const adapter = getAdapterForHostname(window.location.hostname);
 
-    if (!site) {
+    if (!adapter) {
       sendResponse({
         site: 'unknown',
         title: 'Please visit a supported e-commerce site',
@@ -141,7 +165,10 @@ function handleGetProductInfo(sendResponse: (response: Product) => void) {
       return;
     }
 
-    const product = extractProductInfo(site);
+    const site = adapter.site;
+    const trace = new SelectorTraceCollector();
+    const product = adapter.extractProduct(document, window.location.href, trace);
+    reportSelectorHealth(site, 'productPage', trace);
     logger.info('Product extracted:', product.title);
 
 
@@ -164,7 +191,7 @@ function handleGetProductInfo(sendResponse: (response: Product) => void) {
             type: 'SHOW_PRICE_DROP_NOTIFICATION',
             data: {
               title: 'Price Drop Alert!',
-              message: `${product.title.substring(0, 60)}\nPrice dropped from ₹${lastPrice} to ₹${product.numericPrice}`,
+              message: `${product.title.substring(0, 60)}\nPrice dropped from ${formatPrice(lastPrice, product.currency)} to ${formatPrice(product.numericPrice, product.currency)}`,
               iconUrl: product.image || chrome.runtime.getURL('assets/icon-128.png')
             }
           });
@@ -195,23 +222,52 @@ function handleGetProductInfo(sendResponse: (response: Product) => void) {
 }
 
 /**
- * Get search results from current page
+ * Get search results from current page, scrolling to load more on
+ * infinite-scroll sites and reporting the next page on paginated ones
  */
-function handleGetSearchResults(
-  sendResponse: (response: { site: string; products: ScrapedProduct[] }) => void
+async function handleGetSearchResults(
+  site: string | undefined,
+  query: string | undefined,
+  sendResponse: (response: {
+    site: string;
+    products: ScrapedProduct[];
+    nextPageUrl?: string | null;
+    blocked?: boolean;
+  }) => void
 ) {
   try {
     const hostname = window.location.hostname;
-    const site = getSiteFromHostname(hostname);
+    const adapter = getAdapterForPage(site, hostname);
 
-    if (!site) {
+    if (!adapter) {
       sendResponse({ site: hostname, products: [] });
       return;
     }
 
-    const products = scrapeSearchResults(site);
-    logger.info(`Scraped ${products.length} products from ${site}`);
-    sendResponse({ site, products });
+    const depth = adapter.getScrapeDepth();
+    const trace = new SelectorTraceCollector();
+    let products = adapter.extractSearchResults(document, window.location.href, trace);
+
+    if (depth.mode === 'infinite-scroll') {
+      for (let scroll = 0; scroll < depth.maxScrolls; scroll++) {
+        if (hasEnoughResults(products, query, depth)) break;
+        if (!(await scrollForMore(adapter))) break;
+
+        const loaded = adapter.extractSearchResults(document, window.location.href, trace);
+        products = mergeSearchResults(products, loaded, depth.maxResults);
+        logger.debug(`${adapter.site}: ${products.length} products after scroll ${scroll + 1}`);
+      }
+    }
+
+    const nextPageUrl = hasEnoughResults(products, query, depth)
+      ? null
+      : adapter.findNextPageUrl(document, window.location.href);
+
+    // A bot check says nothing about whether the selectors still work
+    const blocked = products.length === 0 && isBlockedPage(document);
+    if (!blocked) reportSelectorHealth(adapter.site, 'searchPage', trace);
+    logger.info(`Scraped ${products.length} products from ${adapter.site}`);
+    sendResponse({ site: adapter.site, products, nextPageUrl, blocked });
   } catch (error) {
     logger.error('Error scraping search results:', error);
     sendResponse({ site: 'error', products: [] });
@@ -219,216 +275,93 @@ function handleGetSearchResults(
 }
 
 /**
- * Extract product information from page
+ * Scroll to the bottom and wait for more result tiles to render
  */
-function extractProductInfo(site: string): Product {
-  const config = SITE_CONFIGS[site];
-  const url = window.location.href;
-
-  const title = getElementText(config.selectors.productPage.title) || 'Product not found';
-  const priceText = getElementText(config.selectors.productPage.price) || '';
-  const image = getImageSrc(config.selectors.productPage.image) || '';
-  const productId = getAttributeValue(config.selectors.productPage.productId, 'data-asin') ||
-                    getAttributeValue(config.selectors.productPage.productId, 'data-id') || '';
-  
-  const brandText = config.selectors.productPage.brand
-    ? getElementText(config.selectors.productPage.brand)
-    : '';
-
-  // ADVANCED: Extract product number (SKU, model, part number)
-  const productNumberInfo = extractProductNumbers(title, productId, url);
-  
-  // ADVANCED: Check availability (look for "out of stock" indicators)
-  let availability: 'in-stock' | 'out-of-stock' | 'limited-stock' | 'unknown' = 'unknown';
-  const bodyText = document.body.textContent?.toLowerCase() || '';
-  
-  if (bodyText.includes('out of stock') || bodyText.includes('currently unavailable')) {
-    availability = 'out-of-stock';
-  } else if (bodyText.includes('in stock') || bodyText.includes('add to cart')) {
-    availability = 'in-stock';
-  } else if (bodyText.includes('only') && bodyText.includes('left')) {
-    availability = 'limited-stock';
-  }
-
-  return {
-    site,
-    title,
-    price: priceText,
-    numericPrice: parsePrice(priceText),
-    url,
-    image,
-    productId,
-    brand: brandText || extractBrand(title),
-    category: detectCategory(title),
-    productNumber: productNumberInfo.productNumber || undefined,
-    sku: productNumberInfo.sku || undefined,
-    availability,
-  };
-}
-
-/**
- * Scrape search results from page (OPTIMIZED for speed + AVAILABILITY FILTERING)
- */
-function scrapeSearchResults(site: string): ScrapedProduct[] {
-  const config = SITE_CONFIGS[site];
-  const products: ScrapedProduct[] = [];
-
-  // OPTIMIZATION 1: Try most common selector first, then fallback
-  let containers: NodeListOf<Element> | null = null;
-  for (const selector of config.selectors.searchPage.container) {
-    containers = document.querySelectorAll(selector);
-    if (containers && containers.length > 0) {
-      logger.debug(`Found ${containers.length} containers with selector: ${selector}`);
-      break;
-    }
-  }
-
-  if (!containers || containers.length === 0) {
-    logger.warn(`No product containers found on page for ${site}`);
-    return products;
-  }
-
-  logger.info(`Scraping ${containers.length} products from ${site}`);
-
-  // OPTIMIZATION 2: Limit to 20 products instead of 30 (faster scraping & matching)
-  const limit = Math.min(20, containers.length);
-
-  for (let index = 0; index < limit; index++) {
-    const container = containers[index];
-    
-    try {
-      const titleEl = container.querySelector(
-        config.selectors.searchPage.title.join(',')
-      );
-      const priceEl = container.querySelector(
-        config.selectors.searchPage.price.join(',')
-      );
-      const imageEl = container.querySelector(
-        config.selectors.searchPage.image.join(',')
-      ) as HTMLImageElement;
-      const linkEl = container.querySelector(
-        config.selectors.searchPage.link.join(',')
-      ) as HTMLAnchorElement;
-
-      if (!titleEl || !priceEl) {
-        logger.debug(`Skipping container ${index}: missing title or price`);
-        continue;
-      }
-
-      // ADVANCED: Check availability before processing
-      const available = isProductAvailable(container, priceEl);
-      if (!available) {
-        logger.debug(`Skipping container ${index}: product not available`);
-        continue;
-      }
-
-      const title = titleEl.textContent?.trim() || '';
-      const priceText = priceEl.textContent?.trim() || '';
-      
-      if (!title || !priceText) {
-        logger.debug(`Skipping container ${index}: empty title or price`);
-        continue;
-      }
+function scrollForMore(adapter: SiteAdapter, timeout = 2500): Promise<boolean> {
+  const selector = adapter.config.selectors.searchPage.container.join(', ');
+  const initialCount = document.querySelectorAll(selector).length;
 
-      const numericPrice = parsePrice(priceText);
-      if (numericPrice < 10) {
-        logger.debug(`Skipping container ${index}: invalid price ${numericPrice} from "${priceText}"`);
-        continue;
+  return new Promise((resolve) => {
+    const observer = new MutationObserver(() => {
+      if (document.querySelectorAll(selector).length > initialCount) {
+        observer.disconnect();
+        clearTimeout(timer);
+        resolve(true);
       }
+    });
 
-      const image = imageEl?.src || imageEl?.getAttribute('data-src') || imageEl?.getAttribute('data-lazy-src') || '';
-      const url = linkEl?.href || '';
-      
-      if (!url) {
-        logger.debug(`Skipping container ${index}: no URL found`);
-        continue;
-      }
-      
-      const productId = config.selectors.searchPage.productId
-        ? getAttributeValueFrom(container, config.selectors.searchPage.productId, 'data-asin') ||
-          getAttributeValueFrom(container, config.selectors.searchPage.productId, 'data-id') || ''
-        : '';
-
-      // ADVANCED: Extract product number from title and URL
-      const productNumberInfo = extractProductNumbers(title, productId, url);
-      
-      // ADVANCED: Get availability status
-      const availabilityInfo = checkAvailability(container);
-
-      products.push({
-        site,
-        title,
-        price: priceText,
-        numericPrice: parsePrice(priceText),
-        url: url.startsWith('http') ? url : `https://${window.location.hostname}${url}`,
-        image,
-        productId,
-        brand: extractBrand(title),
-        category: detectCategory(title),
-        productNumber: productNumberInfo.productNumber || undefined,
-        sku: productNumberInfo.sku || undefined,
-        availability: availabilityInfo.status,
-      });
-    } catch (error) {
-      logger.debug(`Error scraping product at index ${index}:`, error);
-    }
-  }
+    const timer = setTimeout(() => {
+      observer.disconnect();
+      logger.debug(`${adapter.site}: no more results after scrolling`);
+      resolve(false);
+    }, timeout);
 
-  return products;
+    observer.observe(document.body, { childList: true, subtree: true });
+    window.scrollTo(0, document.body.scrollHeight);
+  });
 }
 
 /**
- * Utility: Get text content from element using selectors
+ * Re-extract the product when the user picks another variant swatch and push
+ * it to the popup, so comparisons run on the variant actually selected. Only
+ * product pages with a variant picker are watched; search tabs are not.
  */
-function getElementText(selectors: string[]): string {
-  for (const selector of selectors) {
-    const element = document.querySelector(selector);
-    if (element?.textContent) {
-      return element.textContent.trim();
-    }
-  }
-  return '';
-}
+function watchVariantSelection(debounceMs = 300) {
+  const adapter = getAdapterForHostname(window.location.hostname);
+  const productSelectors = adapter?.config.selectors.productPage;
+  const variantSelectors = productSelectors?.variant;
+  if (!adapter || !productSelectors || !variantSelectors || !document.body) return;
+
+  const isProductPage =
+    !!getElementText(document, productSelectors.title) &&
+    !!extractSelectedVariant(document, variantSelectors);
+  if (!isProductPage) return;
+
+  const readVariant = () => extractSelectedVariant(document, variantSelectors)?.variant || '';
+  let lastVariant = readVariant();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const observer = new MutationObserver(() => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const variant = readVariant();
+      if (variant === lastVariant) return;
+      lastVariant = variant;
+
+      logger.info('Selected variant changed:', variant);
+      const product = adapter.extractProduct(document, window.location.href);
+      chrome.runtime
+        .sendMessage({ type: 'PRODUCT_UPDATED', data: product })
+        .catch(() => logger.debug('Popup not open, variant update dropped'));
+    }, debounceMs);
+  });
 
-/**
- * Utility: Get image src from element using selectors
- */
-function getImageSrc(selectors: string[]): string {
-  for (const selector of selectors) {
-    const element = document.querySelector(selector) as HTMLImageElement;
-    if (element) {
-      return element.src || element.getAttribute('data-src') || '';
-    }
-  }
-  return '';
-}
+  // Swatch selection toggles classes/ARIA state, or re-renders the picker
+  observer.observe(document.body, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ['class', 'aria-checked', 'aria-selected'],
+  });
 
-/**
- * Utility: Get attribute value from element
- */
-function getAttributeValue(selectors: string[], attribute: string): string {
-  for (const selector of selectors) {
-    const element = document.querySelector(selector);
-    if (element) {
-      return element.getAttribute(attribute) || '';
-    }
-  }
-  return '';
+  window.addEventListener(
+    'pagehide',
+    () => {
+      clearTimeout(timer);
+      observer.disconnect();
+    },
+    { once: true }
+  );
 }
 
 /**
- * Utility: Get attribute value from container
+ * Send selector outcomes to the service worker, which persists them
  */
-function getAttributeValueFrom(
-  container: Element,
-  selectors: string[],
-  attribute: string
-): string {
-  for (const selector of selectors) {
-    const element = container.querySelector(selector);
-    if (element) {
-      return element.getAttribute(attribute) || '';
-    }
-  }
-  return container.getAttribute(attribute) || '';
+function reportSelectorHealth(site: string, page: SelectorPage, trace: SelectorTrace) {
+  chrome.runtime
+    .sendMessage({
+      type: 'RECORD_SELECTOR_HEALTH',
+      data: { site, page, report: trace.toReport() },
+    })
+    .catch((error: unknown) => logger.debug('Selector health report failed:', error));
 }
@@ -0,0 +1,24 @@
+import { ChromeMessage, ParseSearchRequest } from '@/types';
+import { parseSearchHtml } from './parse-search';
+import logger from '@/utils/logger';
+
+/**
+ * Offscreen Document
+ * Service workers have no DOMParser, so fetched search pages are parsed here.
+ */
+
+chrome.runtime.onMessage.addListener(
+  (request: ChromeMessage<ParseSearchRequest>, _sender, sendResponse) => {
+    if (request.type !== 'PARSE_SEARCH_HTML' || !request.data) {
+      return false;
+    }
+
+    try {
+      sendResponse(parseSearchHtml(request.data));
+    } catch (error) {
+      logger.error(`Error parsing search HTML for ${request.data.site}:`, error);
+      sendResponse(null);
+    }
+    return false;
+  }
+);
@@ -0,0 +1,27 @@
+import { ParseSearchRequest, ParseSearchResult } from '@/types';
+import { getSiteAdapter } from '@/adapters';
+import { SelectorTraceCollector } from '@/services/selector-health';
+import { hasEnoughResults } from '@/utils/search-depth';
+import { isBlockedPage } from '@/utils/blocked-page';
+
+/**
+ * Run a site adapter's search extraction over fetched HTML.
+ * Mirrors what the content script does in a tab, minus scrolling.
+ */
+export function parseSearchHtml(request: ParseSearchRequest): ParseSearchResult {
+  const adapter = getSiteAdapter(request.site);
+  const doc = new DOMParser().parseFromString(request.html, 'text/html');
+  const trace = new SelectorTraceCollector();
+
+  const products = adapter.extractSearchResults(doc, request.pageUrl, trace);
+  const nextPageUrl = hasEnoughResults(products, request.query, adapter.getScrapeDepth())
+    ? null
+    : adapter.findNextPageUrl(doc, request.pageUrl);
+
+  return {
+    products,
+    nextPageUrl,
+    blocked: products.length === 0 && isBlockedPage(doc),
+    report: trace.toReport(),
+  };
+}
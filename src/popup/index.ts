@@ -5,15 +5,33 @@ declare global {
   }
 }
 import './popup.css';
-import { Product, MatchResult, ChromeMessage } from '@/types';
-import { SITE_CONFIGS, getEnabledSites } from '@/config/sites';
-import { productMatcher } from '@/services/matcher';
-import { smartMatcher } from '@/services/smart-matcher'; // NEW: Smart matching logic
-import { generateSearchQuery, generateSearchQueries, formatPrice, calculatePriceDiff } from '@/utils/product';
-import { withTimeout } from '@/utils/helpers';
+import {
+  Product,
+  MatchResult,
+  ChromeMessage,
+  UserSettings,
+  RegionCode,
+  ComparisonJob,
+  StartComparisonRequest,
+  CancelComparisonRequest,
+  ProgressUpdate,
+  SiteSearchStatus,
+} from '@/types';
+import { SITE_CONFIGS, getEnabledSites, getSiteFromHostname } from '@/config/sites';
+import { REGIONS, HOME_CURRENCY } from '@/config/regions';
+import { formatPrice, calculatePriceDiff } from '@/utils/product';
 import { smartCache } from '@/utils/cache';
-import { deduplicateProducts } from '@/utils/deduplication';
+import { selectorHealth, findBrokenFields, BROKEN_THRESHOLD } from '@/services/selector-health';
+import { settings, DEFAULT_SETTINGS } from '@/services/settings';
+import { comparisonJobs } from '@/services/comparison-jobs';
+import { FULFILMENT_LABELS } from '@/utils/seller';
+import { BANK_LABELS, applyOffers, getEffectivePrice } from '@/utils/offers';
+import { aggregateRatings } from '@/utils/ratings';
 import { validatePrice } from '@/utils/price-validation';
+import { formatUnit, getPackCount, getUnitPrice, pricePerItem } from '@/utils/quantity';
+import { CONDITION_LABELS, conditionsMatch } from '@/utils/condition';
+import { isSponsoredListing } from '@/utils/sponsored';
+import { escapeHtml } from '@/utils/helpers';
 import logger from '@/utils/logger';
 
 /**
@@ -22,19 +40,45 @@ import logger from '@/utils/logger';
 
 // DOM Elements
 const compareBtn = document.getElementById('compare-btn') as HTMLButtonElement;
+const cancelBtn = document.getElementById('cancel-btn') as HTMLButtonElement;
 const clearCacheBtn = document.getElementById('clear-cache-btn') as HTMLButtonElement;
+const siteHealthBtn = document.getElementById('site-health-btn') as HTMLButtonElement;
+const healthSection = document.getElementById('health-section') as HTMLDivElement;
 const currentProductDiv = document.getElementById('current-product') as HTMLDivElement;
 const resultsSection = document.getElementById('results-section') as HTMLDivElement;
 const progressSection = document.getElementById('progress-section') as HTMLDivElement;
 const progressText = document.getElementById('progress-text') as HTMLParagraphElement;
+const progressFill = document.getElementById('progress-fill') as HTMLDivElement;
+const siteProgressGrid = document.getElementById('site-progress') as HTMLDivElement;
 const statsSection = document.getElementById('stats-section') as HTMLDivElement;
 const bestDealStat = document.getElementById('best-deal') as HTMLDivElement;
 const totalSavingsStat = document.getElementById('total-savings') as HTMLDivElement;
 const sitesSearchedStat = document.getElementById('sites-searched') as HTMLDivElement;
+const fulfilledOnlyToggle = document.getElementById('fulfilled-only') as HTMLInputElement;
+const excludeSponsoredToggle = document.getElementById('exclude-sponsored') as HTMLInputElement;
+const otherConditionsToggle = document.getElementById('other-conditions') as HTMLInputElement;
+const unitPriceOption = document.getElementById('unit-price-option') as HTMLLabelElement;
+const unitPriceToggle = document.getElementById('rank-by-unit-price') as HTMLInputElement;
+const ownedCardsDiv = document.getElementById('owned-cards') as HTMLDivElement;
+const regionSettingsDiv = document.getElementById('region-settings') as HTMLDivElement;
+
+// Per-site progress grid
+const SITE_STATUS_LABELS: Record<SiteSearchStatus, string> = {
+  pending: 'Waiting',
+  searching: 'Searching',
+  scraping: 'Reading results',
+  matching: 'Matching',
+  complete: 'Done',
+  error: 'Failed',
+};
+const FINISHED_STATUSES: SiteSearchStatus[] = ['complete', 'error'];
 
 // State
 let currentProduct: Product | null = null;
+let currentTabId: number | undefined;
 let isComparing = false;
+let userSettings: UserSettings = { ...DEFAULT_SETTINGS };
+let lastResults: { original: Product; matches: MatchResult[]; hasSimilar: boolean } | null = null;
 
 // --- Price Drop Notification Toggle Logic ---
 const notifySwitch = document.getElementById('notify-switch') as HTMLInputElement | null;
@@ -75,6 +119,13 @@ patchProductInfoInjection();
  * Initialize popup
  */
 document.addEventListener('DOMContentLoaded', async () => {
+  userSettings = await settings.get();
+  fulfilledOnlyToggle.checked = userSettings.onlyFulfilledSellers;
+  excludeSponsoredToggle.checked = userSettings.sponsoredResults === 'exclude';
+  otherConditionsToggle.checked = userSettings.includeOtherConditions;
+  unitPriceToggle.checked = userSettings.rankByUnitPrice;
+  renderOwnedCards();
+  renderRegionSettings();
 
   try {
     const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
@@ -84,16 +135,17 @@ document.addEventListener('DOMContentLoaded', async () => {
       return;
     }
 
+    currentTabId = tab.id;
+
     // Check if we're on a supported site
-    const url = tab.url || '';
-    const supportedSites = [
-      'amazon.in', 'flipkart.com', 'myntra.com', 'snapdeal.com',
-      'tatacliq.com', 'ajio.com', 'nykaa.com', 'croma.com', 'vijaysales.com'
-    ];
-    
-    const isSupported = supportedSites.some(site => url.includes(site));
+    let hostname = '';
+    try {
+      hostname = new URL(tab.url || '').hostname;
+    } catch {
+      // chrome:// pages and blank tabs
+    }
     
-    if (!isSupported) {
+    if (!getSiteFromHostname(hostname)) {
       showError('Please visit a product page on a supported e-commerce site (Amazon, Flipkart, etc.)');
       return;
     }
@@ -106,6 +158,12 @@ document.addEventListener('DOMContentLoaded', async () => {
         currentProduct = response;
         displayCurrentProduct(response);
         compareBtn.disabled = false;
+
+        // Reattach to a comparison started before the popup was last closed
+        const job = await comparisonJobs.get(tab.id);
+        if (job && (job.status === 'running' || job.product.url === response.url)) {
+          renderJob(job);
+        }
       } else {
         showError('Please visit a product page on a supported e-commerce site');
       }
@@ -120,6 +178,31 @@ document.addEventListener('DOMContentLoaded', async () => {
   }
 });
 
+/**
+ * The content script re-sends the product when the user picks another variant
+ */
+chrome.runtime.onMessage.addListener((message: ChromeMessage<Product>, sender) => {
+  if (message.type !== 'PRODUCT_UPDATED' || !message.data || sender.tab?.id !== currentTabId) {
+    return false;
+  }
+  if (!isComparing) {
+    currentProduct = message.data;
+    displayCurrentProduct(message.data);
+  }
+  return false;
+});
+
+/**
+ * The service worker streams the comparison job as each site progresses
+ */
+chrome.runtime.onMessage.addListener((message: ChromeMessage<ComparisonJob>) => {
+  const isJobUpdate = message.type === 'UPDATE_PROGRESS' || message.type === 'COMPARISON_COMPLETE';
+  if (isJobUpdate && message.data && message.data.tabId === currentTabId) {
+    renderJob(message.data);
+  }
+  return false;
+});
+
 /**
  * Display current product
  */
@@ -131,8 +214,13 @@ function displayCurrentProduct(product: Product) {
       ${product.image ? `<img src="${product.image}" alt="Product" class="product-img">` : ''}
       <div class="product-info">
         <span class="site-badge ${siteConfig.badge}">${siteConfig.name}</span>
+        ${renderCondition(product)}
         <h3 class="product-title">${truncate(product.title, 100)}</h3>
+        ${product.attributes?.variant ? `<p class="product-variant">Selected: ${product.attributes.variant}</p>` : ''}
+        ${renderRating(product)}
         <p class="product-price">${product.price}</p>
+        ${product.mrp && product.discountPercent ? `<p class="result-mrp">MRP <s>${formatPrice(product.mrp, product.currency)}</s> · ${product.discountPercent}% off</p>` : ''}
+        ${renderOffers(product)}
       </div>
     </div>
   `;
@@ -142,22 +230,82 @@ function displayCurrentProduct(product: Product) {
  * Compare button click handler
  */
 compareBtn.addEventListener('click', async () => {
-  if (!currentProduct || isComparing) return;
+  if (!currentProduct || isComparing || currentTabId === undefined) return;
 
   isComparing = true;
   compareBtn.disabled = true;
-  
+
+  // The service worker runs the comparison and streams progress back as messages
   try {
-    await startComparison(currentProduct);
+    const message: ChromeMessage<StartComparisonRequest> = {
+      type: 'START_COMPARISON',
+      data: { tabId: currentTabId, product: currentProduct },
+    };
+    const response: { jobId?: string; error?: string } = await chrome.runtime.sendMessage(message);
+    if (!response?.jobId) throw new Error(response?.error || 'No job started');
   } catch (error) {
     logger.error('Comparison error:', error);
     showError('Failed to compare prices. Please try again.');
-  } finally {
     isComparing = false;
     compareBtn.disabled = false;
   }
 });
 
+/**
+ * Cancel button: stop the running comparison and close its search tabs
+ */
+cancelBtn.addEventListener('click', async () => {
+  if (!isComparing || currentTabId === undefined) return;
+
+  cancelBtn.disabled = true;
+  try {
+    const message: ChromeMessage<CancelComparisonRequest> = {
+      type: 'CANCEL_COMPARISON',
+      data: { tabId: currentTabId },
+    };
+    await chrome.runtime.sendMessage(message);
+  } catch (error) {
+    logger.error('Cancel error:', error);
+    cancelBtn.disabled = false;
+  }
+});
+
+/**
+ * Show a comparison job: progress while it runs, then its results or error
+ */
+function renderJob(job: ComparisonJob) {
+  isComparing = job.status === 'running';
+  compareBtn.disabled = isComparing;
+
+  if (job.status === 'running') {
+    progressSection.classList.remove('hidden');
+    cancelBtn.disabled = false;
+    updateProgress(job);
+
+    // Matches from the sites that have finished so far
+    if (job.result && job.result.matches.length > 0) {
+      displayResults(job.result.original, job.result.matches, job.result.hasSimilar);
+    } else {
+      resultsSection.innerHTML = '';
+    }
+    return;
+  }
+
+  progressSection.classList.add('hidden');
+  if (job.status === 'error') {
+    showError(job.error || 'Failed to compare prices. Please try again.');
+  } else if (job.status === 'cancelled') {
+    // Keep whatever matched before the cancel
+    if (job.result && job.result.matches.length > 0) {
+      displayResults(job.result.original, job.result.matches, job.result.hasSimilar);
+    } else {
+      resultsSection.innerHTML = '<p class="progress-text">Comparison cancelled.</p>';
+    }
+  } else if (job.result) {
+    displayResults(job.result.original, job.result.matches, job.result.hasSimilar);
+  }
+}
+
 /**
  * Clear cache button click handler
  */
@@ -172,306 +320,238 @@ clearCacheBtn.addEventListener('click', async () => {
 });
 
 /**
- * Start price comparison
+ * Seller filter toggle: save and re-render the last results
  */
-async function startComparison(product: Product) {
-  logger.time('Comparison');
-
-  // Show progress
-  progressSection.classList.remove('hidden');
-  resultsSection.innerHTML = '';
-
-  // Generate multiple search queries with fallback strategies
-  const searchQueries = generateSearchQueries(
-    product.title, 
-    product.brand, 
-    product.productNumber, 
-    product.productId, 
-    product.url
-  );
-
-  // Get competitor sites
-  const allSites = getEnabledSites();
-  const competitorSites = allSites.filter((site) => site !== product.site);
-
-  // OPTIMIZATION: Search sites in batches to reduce UI disruption
-  // Open max 3 tabs at a time, then close before opening more
-  const BATCH_SIZE = 3;
-  const batches: string[][] = [];
-  
-  for (let i = 0; i < competitorSites.length; i += BATCH_SIZE) {
-    batches.push(competitorSites.slice(i, i + BATCH_SIZE));
-  }
+fulfilledOnlyToggle.addEventListener('change', async () => {
+  userSettings = await settings.update({ onlyFulfilledSellers: fulfilledOnlyToggle.checked });
 
-  const validResults: Array<{ site: string; products: Product[]; successfulQuery: string }> = [];
-
-  for (const batch of batches) {
-    
-    const batchPromises = batch.map((site) =>
-      searchSiteWithFallback(site, searchQueries, competitorSites.length)
-    );
-    
-    const batchResults = await Promise.all(batchPromises);
-    
-    // Filter and add successful results
-    batchResults.forEach(result => {
-      if (result !== null && result.products.length > 0) {
-        validResults.push(result);
-      }
-    });
-    
-    // Small delay between batches to let Chrome clean up
-    if (batch !== batches[batches.length - 1]) {
-      await sleep(500);
-    }
+  if (lastResults) {
+    displayResults(lastResults.original, lastResults.matches, lastResults.hasSimilar);
   }
+});
 
-  // Log detailed results
-  validResults.forEach((result) => {
-    logger.info(`${result.site}: ${result.products.length} products`);
-  });
-
-  // Collect all products
-  const allProducts: Product[] = [];
-  validResults.forEach((result) => {
-    allProducts.push(...result.products);
+/**
+ * Sponsored toggle: excluded ads are also hidden from the last results;
+ * down-weighting applies from the next comparison
+ */
+excludeSponsoredToggle.addEventListener('change', async () => {
+  userSettings = await settings.update({
+    sponsoredResults: excludeSponsoredToggle.checked ? 'exclude' : 'downweight',
   });
 
-  // OPTIMIZATION: Deduplicate BEFORE matching (removes color variants early)
-  const deduplicatedProducts = deduplicateProducts(allProducts);
-
-  // Match products with NEW SMART MATCHER (v4.0)
-  const allMatches: MatchResult[] = [];
-
-  if (deduplicatedProducts.length > 0) {
-    try {
-      // USE SMART MATCHER: Multi-factor weighted scoring system
-      const matches = await smartMatcher.findMatches(product, deduplicatedProducts);
-      allMatches.push(...matches);
-
-      // FALLBACK: If no matches with smart matcher, try old matcher
-      if (allMatches.length === 0) {
-        logger.info('🔄 Smart matcher found no results, trying fallback matcher...');
-        const fallbackMatches = await productMatcher.findMatches(product, deduplicatedProducts);
-        allMatches.push(...fallbackMatches);
-        
-        // Last resort: similar products
-        if (allMatches.length === 0) {
-          const similarMatches = await productMatcher.findSimilarProducts(product, deduplicatedProducts);
-          allMatches.push(...similarMatches);
-        }
-      }
-
-      // FINAL DEDUPLICATION: Keep only cheapest variant per site (safety net)
-      const deduplicated = deduplicateColorVariants(allMatches);
-      allMatches.length = 0; // Clear array
-      allMatches.push(...deduplicated);
-    } catch (error) {
-      logger.error('Matching error:', error);
-    }
-  } else {
-    logger.warn('No products scraped from any site');
+  if (lastResults) {
+    displayResults(lastResults.original, lastResults.matches, lastResults.hasSimilar);
   }
-
-  logger.info(`Total matches: ${allMatches.length}`);
-
-  // Hide progress
-  progressSection.classList.add('hidden');
-
-  // Display results (with similar products indicator if applicable)
-  displayResults(product, allMatches, allMatches.length > 0 && allProducts.length > 0);
-
-  logger.timeEnd('Comparison');
-}
+});
 
 /**
- * Search site with multiple query fallback (PARALLEL STRATEGY + CACHING)
+ * Condition filter toggle: save and re-render the last results
  */
-async function searchSiteWithFallback(
-  site: string,
-  queries: string[],
-  _totalSites: number
-): Promise<{ site: string; products: Product[]; successfulQuery: string } | null> {
-  const MIN_RESULTS = 2;
-  const MAX_PARALLEL_QUERIES = 3; // Try top 3 queries in parallel
-
-  // Try first 3 queries for cache check
-  const priorityQueries = queries.slice(0, MAX_PARALLEL_QUERIES);
-
-  // Check cache for all queries first (fast)
-  for (const query of priorityQueries) {
-    const cacheKey = smartCache.generateKey(site, query);
-    const cachedResult = await smartCache.get<Product[]>(cacheKey);
-    
-    if (cachedResult && cachedResult.length > 0) {
-      logger.info(`${site}: CACHE HIT`);
-      return {
-        site,
-        products: cachedResult,
-        successfulQuery: query
-      };
-    }
-  }
+otherConditionsToggle.addEventListener('change', async () => {
+  userSettings = await settings.update({ includeOtherConditions: otherConditionsToggle.checked });
 
-  // PARALLEL STRATEGY: Try top 3 queries simultaneously
-  
-  const searchPromises = priorityQueries.map(async (query, index) => {
-    try {
-      const result = await searchSite(site, query, _totalSites);
-      
-      if (result && result.products.length >= MIN_RESULTS) {
-        // Cache the results
-        const cacheKey = smartCache.generateKey(site, query);
-        await smartCache.set(cacheKey, result.products, 5 * 60 * 1000);
-        
-        return {
-          site,
-          products: result.products,
-          successfulQuery: query,
-          queryIndex: index
-        };
-      }
-      return null;
-    } catch (error) {
-      return null;
-    }
-  });
-
-  // Wait for first successful result or all to complete
-  const results = await Promise.all(searchPromises);
-  
-  // Find first successful result (prefer earlier queries)
-  const successfulResult = results.find(r => r !== null);
-  
-  if (successfulResult) {
-    return {
-      site: successfulResult.site,
-      products: successfulResult.products,
-      successfulQuery: successfulResult.successfulQuery
-    };
+  if (lastResults) {
+    displayResults(lastResults.original, lastResults.matches, lastResults.hasSimilar);
   }
+});
 
-  // If parallel queries failed, try remaining queries sequentially
-  const remainingQueries = queries.slice(MAX_PARALLEL_QUERIES, 5);
-  
-  for (let i = 0; i < remainingQueries.length; i++) {
-    const query = remainingQueries[i];
+/**
+ * Unit-price ranking toggle: save and re-render the last results
+ */
+unitPriceToggle.addEventListener('change', async () => {
+  userSettings = await settings.update({ rankByUnitPrice: unitPriceToggle.checked });
 
-    try {
-      const cacheKey = smartCache.generateKey(site, query);
-      const result = await searchSite(site, query, _totalSites);
-      
-      if (result && result.products.length > 0) {
-        await smartCache.set(cacheKey, result.products, 5 * 60 * 1000);
-        
-        return { 
-          site, 
-          products: result.products,
-          successfulQuery: query 
-        };
-      }
-    } catch (error) {
-      // Continue to next query
-    }
+  if (lastResults) {
+    displayResults(lastResults.original, lastResults.matches, lastResults.hasSimilar);
   }
+});
 
-  return null;
+/**
+ * Owned cards: bank offers only count for cards the user has
+ */
+function renderOwnedCards() {
+  ownedCardsDiv.innerHTML = Object.entries(BANK_LABELS)
+    .map(
+      ([id, label]) => `
+      <label class="filter-option">
+        <input type="checkbox" value="${id}" ${userSettings.ownedCards.includes(id) ? 'checked' : ''} />
+        ${label}
+      </label>
+    `
+    )
+    .join('');
 }
 
 /**
- * Search individual site (OPTIMIZED for speed)
+ * Regions searched during a comparison, and exchange rates into rupees for
+ * the other regions' currencies
  */
-async function searchSite(
-  site: string,
-  query: string,
-  _totalSites: number
-): Promise<{ site: string; products: Product[] } | null> {
-  const siteConfig = SITE_CONFIGS[site];
-  
-  updateProgress(`Searching ${siteConfig.name}...`);
-
-  try {
-    const searchUrl = siteConfig.searchUrl + encodeURIComponent(query);
+function renderRegionSettings() {
+  const regions = (Object.keys(REGIONS) as RegionCode[])
+    .map(
+      (code) => `
+      <label class="filter-option">
+        <input type="checkbox" value="${code}" ${userSettings.regions.includes(code) ? 'checked' : ''} />
+        ${REGIONS[code].name}
+      </label>
+    `
+    )
+    .join('');
+  const rates = Array.from(new Set(Object.values(REGIONS).map((region) => region.currency)))
+    .filter((currency) => currency !== HOME_CURRENCY)
+    .map(
+      (currency) => `
+      <label class="filter-option exchange-rate">
+        1 ${currency} =
+        <input type="number" min="0" step="0.01" data-currency="${currency}" value="${userSettings.exchangeRates[currency] ?? ''}" />
+        ${HOME_CURRENCY}
+      </label>
+    `
+    )
+    .join('');
+
+  regionSettingsDiv.innerHTML = `${regions}<div class="exchange-rates">${rates}</div>`;
+}
 
-    // Open tab in BACKGROUND (inactive, minimal visibility)
-    const tab = await chrome.tabs.create({ 
-      url: searchUrl, 
-      active: false,
-      selected: false, // Additional flag to ensure it stays in background
+regionSettingsDiv.addEventListener('change', async () => {
+  const regions = Array.from(
+    regionSettingsDiv.querySelectorAll<HTMLInputElement>('input[type="checkbox"]:checked')
+  ).map((input) => input.value as RegionCode);
+  const exchangeRates: Record<string, number> = {};
+  regionSettingsDiv
+    .querySelectorAll<HTMLInputElement>('input[data-currency]')
+    .forEach((input) => {
+      const rate = parseFloat(input.value);
+      if (rate > 0) exchangeRates[input.dataset.currency || ''] = rate;
     });
 
-    if (!tab.id) {
-      return null;
-    }
+  // Rates apply from the next comparison
+  userSettings = await settings.update({ regions, exchangeRates });
+});
 
-    // INCREASED wait times for better reliability across all sites
-    await sleep(3500); // Increased from 2000ms to 3500ms for better page loading
+ownedCardsDiv.addEventListener('change', async () => {
+  const ownedCards = Array.from(
+    ownedCardsDiv.querySelectorAll<HTMLInputElement>('input:checked')
+  ).map((input) => input.value);
+  userSettings = await settings.update({ ownedCards });
 
-    // Inject content script
-    try {
-      await chrome.scripting.executeScript({
-        target: { tabId: tab.id },
-        files: ['content-script.js'],
-      });
-    } catch (error) {
-      await chrome.tabs.remove(tab.id);
-      return null;
-    }
-
-    // SMART WAIT: Use intelligent page detection instead of fixed wait
-    try {
-      const readyResponse = await withTimeout(
-        sendMessage<{ ready: boolean }>(tab.id, {
-          type: 'WAIT_FOR_PAGE_READY',
-        }),
-        5000,
-        `Page ready timeout for ${site}`
-      );
-      
-      if (!readyResponse?.ready) {
-        await sleep(1500);
-      }
-    } catch (error) {
-      await sleep(1500);
-    }
+  if (currentProduct) {
+    displayCurrentProduct(currentProduct);
+  }
+  if (lastResults) {
+    displayResults(lastResults.original, lastResults.matches, lastResults.hasSimilar);
+  }
+});
 
-    // INCREASED timeout for slower sites
-    const response = await withTimeout(
-      sendMessage<{ site: string; products: Product[] }>(tab.id, {
-        type: 'GET_SEARCH_RESULTS',
-      }),
-      8000, // Increased from 6000ms to 8000ms for better reliability
-      `Timeout for ${site}`
-    );
-
-    // Close tab immediately
-    await chrome.tabs.remove(tab.id);
-
-    if (response && response.products && response.products.length > 0) {
-      logger.info(`${site}: Found ${response.products.length} products`);
-      return { site, products: response.products };
-    }
+/**
+ * Site health button click handler
+ */
+siteHealthBtn.addEventListener('click', async () => {
+  if (!healthSection.classList.contains('hidden')) {
+    healthSection.classList.add('hidden');
+    return;
+  }
 
-    return null;
+  try {
+    await displaySiteHealth();
+    healthSection.classList.remove('hidden');
   } catch (error) {
-    logger.error(`Search error for ${site}:`, error);
-    return null;
+    logger.error('Failed to load site health:', error);
   }
+});
+
+/**
+ * Display per-site selector health, flagging fields that keep failing
+ */
+async function displaySiteHealth() {
+  const health = await selectorHealth.getAll();
+  const broken = findBrokenFields(health);
+  const sites = Object.keys(health);
+
+  if (sites.length === 0) {
+    healthSection.innerHTML = '<p class="health-meta">No scrapes recorded yet. Run a comparison first.</p>';
+    return;
+  }
+
+  healthSection.innerHTML = sites
+    .map((site) => {
+      const siteName = SITE_CONFIGS[site]?.name || site;
+      const siteBroken = broken.filter((b) => b.site === site);
+      const lastScrape = new Date(health[site].lastScrape).toLocaleString();
+
+      return `
+        <div class="health-row">
+          <div>
+            <strong>${siteName}</strong>
+            <div class="health-meta">Last scrape: ${lastScrape}</div>
+            ${siteBroken.length > 0 ? `
+              <div class="health-fields">
+                ${siteBroken.map((b) => `${b.field} — failed last ${b.consecutiveMisses} scrapes`).join('<br>')}
+              </div>
+            ` : ''}
+          </div>
+          <span class="health-status ${siteBroken.length > 0 ? 'broken' : 'ok'}">
+            ${siteBroken.length > 0 ? `⚠️ ${siteBroken.length} broken` : '✓ Healthy'}
+          </span>
+        </div>
+      `;
+    })
+    .join('') + `<p class="health-meta">Title, price and result tiles are flagged after ${BROKEN_THRESHOLD} consecutive misses.</p>`;
 }
 
 /**
  * Display results
  */
 function displayResults(original: Product, matches: MatchResult[], hasSimilar: boolean = false) {
+  lastResults = { original, matches, hasSimilar };
+
+  // Sponsored filter: drop paid placements when the user excludes them
+  const organicMatches =
+    userSettings.sponsoredResults === 'exclude'
+      ? matches.filter((m) => !isSponsoredListing(m))
+      : matches;
+
+  // Seller filter: drop marketplace listings without a fulfilment badge
+  const sellerMatches = userSettings.onlyFulfilledSellers
+    ? organicMatches.filter(isFulfilledListing)
+    : organicMatches;
+
+  // Condition filter: renewed, refurbished, open-box and used listings only when asked for
+  const conditionMatches = userSettings.includeOtherConditions
+    ? sellerMatches
+    : sellerMatches.filter((m) => conditionsMatch(original.condition, m.condition));
+
   // ADVANCED: Filter out unavailable products
-  const availableMatches = matches.filter(m => m.availability !== 'out-of-stock');
+  const availableMatches = conditionMatches.filter(m => m.availability !== 'out-of-stock');
   
-  if (availableMatches.length < matches.length) {
-    logger.info(`Filtered out ${matches.length - availableMatches.length} out-of-stock products`);
+  if (availableMatches.length < conditionMatches.length) {
+    logger.info(`Filtered out ${conditionMatches.length - availableMatches.length} out-of-stock products`);
   }
   
-  // Use available matches for display
-  const displayMatches = availableMatches.length > 0 ? availableMatches : matches;
+  // Use available matches for display, ranked by effective price
+  // (price + delivery - coupons and offers on the user's cards)
+  const effectivePrice = (product: Product) => getEffectivePrice(product, userSettings.ownedCards);
+  const candidates = availableMatches.length > 0 ? availableMatches : conditionMatches;
+
+  // Unit-price ranking is offered when the source has a measurable quantity;
+  // listings without a comparable quantity sort after those with one
+  const unitPrice = (product: Product) => {
+    const perUnit = getUnitPrice(effectivePrice(product), product.netQuantity);
+    return perUnit && perUnit.unit === original.netQuantity?.unit ? perUnit.price : undefined;
+  };
+  const canRankByUnit =
+    unitPrice(original) !== undefined && candidates.some((m) => unitPrice(m) !== undefined);
+  unitPriceOption.classList.toggle('hidden', !canRankByUnit);
+  const byUnit = canRankByUnit && userSettings.rankByUnitPrice;
+  // Otherwise multipacks are compared per item when pack sizes differ
+  const byItem =
+    !byUnit && candidates.some((m) => getPackCount(m) !== getPackCount(original));
+  const rankPrice = (product: Product) => {
+    if (byUnit) return unitPrice(product) ?? Infinity;
+    return byItem ? effectivePrice(product) / getPackCount(product) : effectivePrice(product);
+  };
+
+  const displayMatches = candidates.slice().sort((a, b) => rankPrice(a) - rankPrice(b));
   
   if (displayMatches.length === 0) {
     statsSection.classList.add('hidden');
@@ -479,7 +559,7 @@ function displayResults(original: Product, matches: MatchResult[], hasSimilar: b
       <div class="no-results">
         <div class="icon">🔍</div>
         <h3>No Matching Products Found</h3>
-        <p>We searched across ${getEnabledSites().length - 1} major e-commerce sites</p>
+        <p>We searched across ${getEnabledSites(userSettings.regions, original.category).length - 1} major e-commerce sites</p>
         <div style="margin-top: 15px; padding: 15px; background: #f5f5f5; border-radius: 8px; text-align: left; font-size: 13px;">
           <strong>Possible reasons:</strong>
           <ul style="margin: 10px 0; padding-left: 20px;">
@@ -497,18 +577,22 @@ function displayResults(original: Product, matches: MatchResult[], hasSimilar: b
 
   // Update stats dashboard
   const cheapest = displayMatches[0];
-  const { diff, percent, isCheaper } = calculatePriceDiff(
-    original.numericPrice,
-    cheapest.numericPrice
-  );
+  const cheapestEffective = rankPrice(cheapest);
+  const { diff, percent, isCheaper } = calculatePriceDiff(rankPrice(original), cheapestEffective);
+  const unitSuffix =
+    byUnit && original.netQuantity
+      ? ` per ${formatUnit(original.netQuantity.unit)}`
+      : byItem
+        ? ' per item'
+        : '';
   
   const sitesFound = new Set(displayMatches.map(m => m.site)).size;
   
   statsSection.classList.remove('hidden');
   bestDealStat.textContent = SITE_CONFIGS[cheapest.site].name;
-  totalSavingsStat.textContent = isCheaper ? `₹${diff}` : 'N/A';
+  totalSavingsStat.textContent = isCheaper ? formatPrice(diff) + unitSuffix : 'N/A';
   totalSavingsStat.style.color = isCheaper ? 'var(--green)' : 'var(--text-light)';
-  sitesSearchedStat.textContent = `${sitesFound}/${getEnabledSites().length - 1}`;
+  sitesSearchedStat.textContent = `${sitesFound}/${getEnabledSites(userSettings.regions, original.category).length - 1}`;
 
   // Check if results are similar products (not exact matches)
   const allSimilar = displayMatches.every(m => m.matchLevel === 'SIMILAR');
@@ -528,12 +612,25 @@ function displayResults(original: Product, matches: MatchResult[], hasSimilar: b
     `;
   }
 
+  // Rating across every site carrying this product (original page included)
+  const aggregate = allSimilar
+    ? null
+    : aggregateRatings([original, ...displayMatches.filter((m) => m.matchLevel !== 'SIMILAR')]);
+  if (aggregate && aggregate.sites > 1) {
+    html += `
+      <div class="aggregate-rating" title="Average weighted by number of ratings on each site">
+        <span class="aggregate-stars">★ ${aggregate.rating.toFixed(1)}</span>
+        from ${aggregate.reviewCount.toLocaleString('en-IN')} ratings across ${aggregate.sites} sites
+      </div>
+    `;
+  }
+
   // Savings banner (only for exact matches)
   if (!allSimilar && isCheaper && diff > 0) {
     html += `
       <div class="savings-banner">
-        <div class="savings-amount">${formatPrice(diff)}</div>
-        <div class="savings-text">Save ${percent}% on ${SITE_CONFIGS[cheapest.site].name}!</div>
+        <div class="savings-amount">${formatPrice(diff)}${unitSuffix}</div>
+        <div class="savings-text">Save ${percent}%${unitSuffix} on ${SITE_CONFIGS[cheapest.site].name}!</div>
       </div>
     `;
   }
@@ -541,11 +638,12 @@ function displayResults(original: Product, matches: MatchResult[], hasSimilar: b
   // Product cards
   displayMatches.slice(0, 10).forEach((match) => {
     const siteConfig = SITE_CONFIGS[match.site];
-    const priceDiff = calculatePriceDiff(original.numericPrice, match.numericPrice);
+    const priceDiff = calculatePriceDiff(rankPrice(original), rankPrice(match));
+    const isBestPrice = rankPrice(match) === cheapestEffective && !allSimilar;
     const isSimilar = match.matchLevel === 'SIMILAR';
     
     // PRICE VALIDATION: Check if price is suspicious
-    const priceValidation = validatePrice(original.numericPrice, match.numericPrice);
+    const priceValidation = validatePrice(pricePerItem(original), pricePerItem(match));
     const showWarning = priceValidation.isSuspicious;
     
     // ADVANCED: Availability badge
@@ -554,25 +652,36 @@ function displayResults(original: Product, matches: MatchResult[], hasSimilar: b
       : '';
 
     html += `
-      <div class="result-card ${match.numericPrice === cheapest.numericPrice && !allSimilar ? 'best-price' : ''}">
+      <div class="result-card ${isBestPrice ? 'best-price' : ''}">
         ${match.image ? `<img src="${match.image}" alt="Product" class="result-img">` : ''}
         <div class="result-info">
           <div class="result-header">
             <span class="site-badge ${siteConfig.badge}">${siteConfig.name}</span>
-            ${match.numericPrice === cheapest.numericPrice && !allSimilar ? '<span class="best-badge">BEST PRICE</span>' : ''}
+            ${isBestPrice ? '<span class="best-badge">BEST PRICE</span>' : ''}
             ${isSimilar ? '<span style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 4px 10px; border-radius: 12px; font-size: 11px; font-weight: 600;">🔗 SIMILAR</span>' : ''}
+            ${renderCondition(match)}
+            ${isSponsoredListing(match) ? '<span class="sponsored-badge" title="Paid placement on the site">Sponsored</span>' : ''}
             ${availabilityBadge}
             ${showWarning ? '<span style="background: #FFA500; color: white; padding: 4px 10px; border-radius: 12px; font-size: 11px; font-weight: 600;" title="' + priceValidation.reason + '">⚠️ SUSPICIOUS</span>' : ''}
           </div>
           <h4 class="result-title">${truncate(match.title, 80)}</h4>
+          ${renderRating(match)}
+          ${renderSeller(match)}
           ${isSimilar ? `<p style="font-size: 12px; color: #666; margin: 5px 0;">${match.matchReason}</p>` : ''}
           ${showWarning ? `<p style="font-size: 12px; color: #FF6B00; margin: 5px 0; font-weight: 500;">⚠️ ${priceValidation.reason}</p>` : ''}
           <div class="result-pricing">
-            <span class="result-price">${formatPrice(match.numericPrice)}</span>
-            ${!allSimilar ? `<span class="price-diff ${priceDiff.isCheaper ? 'cheaper' : 'expensive'}">
+            <div class="result-price-group">
+              <span class="result-price">${formatPrice(match.numericPrice)}</span>
+              ${match.mrp && match.discountPercent ? `<span class="result-mrp" title="Discount advertised by ${siteConfig.name}"><s>${formatPrice(match.mrp, match.currency)}</s> ${match.discountPercent}% off</span>` : ''}
+            </div>
+            ${!allSimilar && Number.isFinite(rankPrice(match)) ? `<span class="price-diff ${priceDiff.isCheaper ? 'cheaper' : 'expensive'}" title="Compared with the price on this page">
               ${priceDiff.isCheaper ? '↓' : '↑'} ${priceDiff.percent}%
             </span>` : ''}
           </div>
+          ${renderUnitPrice(match, effectivePrice(match))}
+          ${renderConversion(match)}
+          ${renderDelivery(match)}
+          ${renderOffers(match)}
           <div class="result-footer">
             <span class="confidence">Match: ${match.confidence}%</span>
             <div class="action-buttons">
@@ -621,61 +730,145 @@ function displayResults(original: Product, matches: MatchResult[], hasSimilar: b
 }
 
 /**
- * Update progress
+ * Whether a listing passes the fulfilled-sellers filter.
+ * Sites without a fulfilment programme sell first-party and always pass.
  */
-function updateProgress(text: string) {
-  progressText.textContent = text;
+function isFulfilledListing(match: MatchResult): boolean {
+  return !SITE_CONFIGS[match.site]?.fulfilmentBadge || !!match.seller?.fulfilment;
 }
 
 /**
- * Deduplicate color variants - keep only cheapest per site
- * Example: "iPhone 15 Black" and "iPhone 15 White" from same site → keep cheapest
+ * Condition badge for anything other than a new listing
  */
-function deduplicateColorVariants(matches: MatchResult[]): MatchResult[] {
-  const colorKeywords = [
-    'black', 'white', 'blue', 'red', 'green', 'yellow', 'pink', 'purple',
-    'grey', 'gray', 'silver', 'gold', 'rose', 'midnight', 'starlight', 
-    'coral', 'velvet', 'ocean', 'space', 'titanium', 'natural', 'pro'
-  ];
-
-  // Group by site and base product (title without color)
-  const groups = new Map<string, MatchResult[]>();
-
-  matches.forEach(match => {
-    // Remove color keywords from title to create base key
-    let baseTitle = match.title.toLowerCase();
-    colorKeywords.forEach(color => {
-      baseTitle = baseTitle.replace(new RegExp(`\\b${color}\\b`, 'gi'), '').trim();
-    });
-    
-    // Remove extra spaces
-    baseTitle = baseTitle.replace(/\s+/g, ' ').trim();
-    
-    // Create unique key: site + brand + base title
-    const key = `${match.site}|${match.brand}|${baseTitle}`;
-    
-    if (!groups.has(key)) {
-      groups.set(key, []);
-    }
-    groups.get(key)!.push(match);
-  });
+function renderCondition(product: Product): string {
+  if (!product.condition || product.condition === 'new') return '';
 
-  // Keep only cheapest from each group
-  const deduplicated: MatchResult[] = [];
-  groups.forEach((variants, key) => {
-    if (variants.length === 1) {
-      deduplicated.push(variants[0]);
-    } else {
-      // Multiple variants found - keep cheapest
-      const cheapest = variants.reduce((min, curr) => 
-        curr.numericPrice < min.numericPrice ? curr : min
-      );
-      logger.info(`Dedup: ${variants.length} color variants for "${key.split('|')[2]}" on ${variants[0].site} → keeping cheapest at ₹${cheapest.numericPrice}`);
-      deduplicated.push(cheapest);
-    }
-  });
+  return `<span class="condition-badge">${CONDITION_LABELS[product.condition]}</span>`;
+}
 
-  return deduplicated;
+/**
+ * Seller line for a result card
+ */
+function renderSeller(match: MatchResult): string {
+  const seller = match.seller;
+  if (!seller) return '';
+
+  const parts = [
+    seller.name ? `Sold by ${escapeHtml(truncate(seller.name, 30))}` : '',
+    seller.rating !== undefined ? `${seller.rating}★` : '',
+  ].filter(Boolean);
+  const badge = seller.fulfilment
+    ? `<span class="fulfilment-badge">✓ ${FULFILMENT_LABELS[seller.fulfilment]}</span>`
+    : '';
+
+  return `<p class="result-seller">${parts.join(' · ')} ${badge}</p>`;
+}
+
+/**
+ * Star rating with its rating count
+ */
+function renderRating(product: Product): string {
+  if (product.rating === undefined) return '';
+
+  const count = product.reviewCount
+    ? ` <span class="rating-count">(${product.reviewCount.toLocaleString('en-IN')})</span>`
+    : '';
+  return `<p class="result-rating">★ ${product.rating.toFixed(1)}${count}</p>`;
+}
+
+/**
+ * Delivery line for a result card: fee and promised date
+ */
+function renderDelivery(match: MatchResult): string {
+  const delivery = match.delivery;
+  if (!delivery) return '';
+
+  const fee =
+    delivery.fee === undefined
+      ? ''
+      : delivery.fee === 0
+        ? 'Free delivery'
+        : `+ ${formatPrice(delivery.fee, match.currency)} delivery`;
+  const eta =
+    delivery.etaDays !== undefined
+      ? `🚚 ${delivery.etaText || ''} (${delivery.etaDays === 0 ? 'today' : `${delivery.etaDays}d`})`
+      : '';
+
+  return `<p class="result-delivery">${[fee, eta].filter(Boolean).join(' · ')}</p>`;
+}
+
+/**
+ * Effective price line when a coupon or an owned-card offer applies
+ */
+function renderOffers(product: Product): string {
+  const applied = applyOffers(product, userSettings.ownedCards);
+  if (applied.savings === 0) return '';
+
+  const sources = [
+    applied.bank ? `${BANK_LABELS[applied.bank.bank || '']} offer` : '',
+    applied.coupon ? 'coupon' : '',
+  ].filter(Boolean);
+  const details = [applied.bank?.text, applied.coupon?.text].filter(Boolean).join('\n');
+
+  return `<p class="result-offer" title="${escapeHtml(details)}">Effective ${formatPrice(getEffectivePrice(product, userSettings.ownedCards), product.currency)} with ${sources.join(' + ')}</p>`;
+}
+
+/**
+ * Original price of a listing converted from another currency
+ */
+function renderConversion(product: Product): string {
+  const conversion = product.converted;
+  if (!conversion) return '';
+
+  return `<p class="result-converted" title="1 ${conversion.currency} = ${conversion.rate} ${HOME_CURRENCY}, from your exchange rates">Converted from ${conversion.price}</p>`;
+}
+
+/**
+ * Pack size and price per 100 ml / 100 g / item, after delivery and offers
+ */
+function renderUnitPrice(product: Product, price: number): string {
+  const packCount = getPackCount(product);
+  const unitPrice = getUnitPrice(price, product.netQuantity);
+  const parts = [
+    packCount > 1 ? `Pack of ${packCount} · ${formatPrice(price / packCount)} each` : '',
+    unitPrice ? `${formatPrice(unitPrice.price)} / ${formatUnit(unitPrice.unit)}` : '',
+  ].filter(Boolean);
+  if (parts.length === 0) return '';
+
+  return `<p class="result-unit-price" title="After delivery and offers">${parts.join(' · ')}</p>`;
+}
+
+/**
+ * Update progress
+ */
+function updateProgress(job: ComparisonJob) {
+  const finished = job.sites.filter((entry) => FINISHED_STATUSES.includes(entry.status)).length;
+  const percent = job.sites.length > 0 ? (finished / job.sites.length) * 100 : 0;
+
+  progressFill.style.width = `${percent}%`;
+  progressText.textContent =
+    job.sites.length > 0 ? `${job.progress} (${finished}/${job.sites.length} sites)` : job.progress;
+  siteProgressGrid.innerHTML = job.sites.map(renderSiteProgress).join('');
+}
+
+/**
+ * One row of the per-site progress grid
+ */
+function renderSiteProgress(entry: ProgressUpdate): string {
+  let detail = '';
+  if (entry.status === 'complete') {
+    detail = `${entry.matchesFound ?? 0} of ${entry.productsFound ?? 0}`;
+  } else if (entry.productsFound !== undefined) {
+    detail = `${entry.productsFound} found`;
+  }
+
+  return `
+    <div class="site-progress-item status-${entry.status}" title="${escapeHtml(entry.error || '')}">
+      <span class="site-progress-name">${SITE_CONFIGS[entry.site]?.name || entry.site}</span>
+      <span class="site-progress-status">${SITE_STATUS_LABELS[entry.status]}</span>
+      <span class="site-progress-detail">${detail}</span>
+    </div>
+  `;
 }
 
 /**
@@ -714,13 +907,6 @@ async function sendMessage<T>(tabId: number, message: ChromeMessage): Promise<T>
   });
 }
 
-/**
- * Utility: Sleep
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 /**
  * Utility: Truncate text
  */
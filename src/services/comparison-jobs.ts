@@ -0,0 +1,45 @@
+import { ComparisonJob } from '@/types';
+import logger from '@/utils/logger';
+
+/**
+ * Comparison Jobs
+ * Comparisons run in the service worker. Their state lives in
+ * chrome.storage.session, one entry per source tab, so a reopened popup can
+ * follow a running job or show a finished one.
+ */
+
+const KEY_PREFIX = 'comparison_job_';
+
+export class ComparisonJobStore {
+  async get(tabId: number): Promise<ComparisonJob | null> {
+    try {
+      const key = jobKey(tabId);
+      const result = await chrome.storage.session.get(key);
+      return result[key] || null;
+    } catch (error) {
+      logger.error('Comparison job read error:', error);
+      return null;
+    }
+  }
+
+  async getAll(): Promise<ComparisonJob[]> {
+    const all = await chrome.storage.session.get(null);
+    return Object.entries(all)
+      .filter(([key]) => key.startsWith(KEY_PREFIX))
+      .map(([, job]) => job as ComparisonJob);
+  }
+
+  async save(job: ComparisonJob): Promise<void> {
+    await chrome.storage.session.set({ [jobKey(job.tabId)]: job });
+  }
+
+  async remove(tabId: number): Promise<void> {
+    await chrome.storage.session.remove(jobKey(tabId));
+  }
+}
+
+function jobKey(tabId: number): string {
+  return `${KEY_PREFIX}${tabId}`;
+}
+
+export const comparisonJobs = new ComparisonJobStore();
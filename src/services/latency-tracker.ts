@@ -0,0 +1,112 @@
+import { LatencyPhase, SiteLatency } from '@/types';
+import logger from '@/utils/logger';
+
+/**
+ * Search Latency
+ * Keeps recent durations per site and search phase, and turns them into
+ * timeouts: a fast site gets short waits, a slow one gets the time it needs.
+ */
+
+const STORAGE_KEY = 'search_latency';
+const HISTORY_SIZE = 20; // Durations kept per site and phase
+const MIN_SAMPLES = 5; // Below this the phase's default timeout applies
+const TIMEOUT_HEADROOM = 1.5; // Timeout as a multiple of p95
+const SLOW_MARGIN = 1.25; // How far past p95 a duration must be to count as slow
+
+export interface TimeoutBounds {
+  min: number;
+  initial: number; // Used until a site has MIN_SAMPLES durations
+  max: number;
+}
+
+export const PHASE_TIMEOUTS: Record<LatencyPhase, TimeoutBounds> = {
+  fetch: { min: 5000, initial: 15000, max: 30000 },
+  load: { min: 3000, initial: 10000, max: 20000 },
+  ready: { min: 1500, initial: 5000, max: 12000 },
+  scrape: { min: 5000, initial: 15000, max: 30000 },
+};
+
+export class LatencyTracker {
+  private history: Record<string, SiteLatency> = {};
+  private loading: Promise<void> | null = null;
+  // Serializes writes to storage
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Read persisted history once per service worker
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = chrome.storage.local
+        .get(STORAGE_KEY)
+        .then((result) => {
+          this.history = { ...result[STORAGE_KEY], ...this.history };
+        })
+        .catch((error) => logger.error('Latency history read error:', error));
+    }
+    return this.loading;
+  }
+
+  /**
+   * Add a duration to a site's history
+   */
+  record(site: string, phase: LatencyPhase, ms: number): void {
+    const siteLatency = this.history[site] || {};
+    siteLatency[phase] = [...(siteLatency[phase] || []), Math.round(ms)].slice(-HISTORY_SIZE);
+    this.history[site] = siteLatency;
+
+    this.writeQueue = this.writeQueue
+      .then(() => chrome.storage.local.set({ [STORAGE_KEY]: this.history }))
+      .catch((error) => logger.error('Latency history write error:', error));
+  }
+
+  /**
+   * How long to wait for a phase on a site
+   */
+  timeoutFor(site: string, phase: LatencyPhase): number {
+    return adaptiveTimeout(this.samples(site, phase), PHASE_TIMEOUTS[phase]);
+  }
+
+  /**
+   * Typical (p50) duration of a phase on a site, or null without enough history
+   */
+  typical(site: string, phase: LatencyPhase): number | null {
+    const samples = this.samples(site, phase);
+    return samples.length >= MIN_SAMPLES ? percentile(samples, 50) : null;
+  }
+
+  /**
+   * Whether a duration is well past the site's usual worst case, a sign the
+   * browser rather than the site is struggling. One in twenty samples is
+   * above p95 by definition, so that alone is not slow.
+   */
+  isSlow(site: string, phase: LatencyPhase, ms: number): boolean {
+    const samples = this.samples(site, phase);
+    return samples.length >= MIN_SAMPLES && ms > percentile(samples, 95) * SLOW_MARGIN;
+  }
+
+  private samples(site: string, phase: LatencyPhase): number[] {
+    return this.history[site]?.[phase] || [];
+  }
+}
+
+/**
+ * Nearest-rank percentile of a list of durations
+ */
+export function percentile(samples: number[], p: number): number {
+  if (samples.length === 0) return 0;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+/**
+ * p95 with headroom, kept within the phase's bounds
+ */
+export function adaptiveTimeout(samples: number[], bounds: TimeoutBounds): number {
+  if (samples.length < MIN_SAMPLES) return bounds.initial;
+  const timeout = Math.round(percentile(samples, 95) * TIMEOUT_HEADROOM);
+  return Math.min(bounds.max, Math.max(bounds.min, timeout));
+}
+
+export const latencyTracker = new LatencyTracker();
@@ -1,9 +1,15 @@
 import { Product, MatchResult, MatchLevel, ProductAttributes } from '@/types';
 import { extractModel, extractStorage, extractRAM, extractColor } from '@/utils/product';
 import { normalizeBrand, brandsMatch } from '@/utils/brand-normalization';
-import { productNumbersMatch } from '@/utils/product-number-extractor';
+import { identifiersMatch, productNumbersMatch } from '@/utils/product-number-extractor';
+import { pricePerItem } from '@/utils/quantity';
 import logger from '@/utils/logger';
 
+// Attributes the title matcher works on (spec-table extras are not used here)
+type TitleAttributes = Required<
+  Pick<ProductAttributes, 'model' | 'storage' | 'ram' | 'color' | 'size' | 'variant' | 'brand'>
+>;
+
 /**
  * Production-level Product Matching Engine
  * Uses multiple algorithms: exact matching, fuzzy matching, ML-inspired scoring
@@ -33,6 +39,15 @@ export class ProductMatcher {
       );
       logger.info(`After validation: ${validCandidates.length} valid products`);
 
+      // Level 0: Same GTIN/ISBN (100% confidence) - definitive, beats every heuristic
+      if (sourceProduct.gtin || sourceProduct.isbn) {
+        const identifierMatches = this.findIdentifierMatches(sourceProduct, validCandidates);
+        if (identifierMatches.length > 0) {
+          logger.info(`✅ Level 0: ${identifierMatches.length} barcode matches - EARLY EXIT`);
+          return this.sortAndLimit(identifierMatches);
+        }
+      }
+
       // OPTIMIZATION 2: Filter accessories early (single pass)
       const filtered = this.filterAccessories(sourceProduct, validCandidates);
       logger.info(`After accessory filter: ${filtered.length}`);
@@ -119,6 +134,21 @@ export class ProductMatcher {
     }
   }
 
+  /**
+   * Level 0: GTIN/EAN/UPC or ISBN matching
+   */
+  private findIdentifierMatches(source: Product, candidates: Product[]): MatchResult[] {
+    return candidates
+      .filter((c) => identifiersMatch(source, c))
+      .map((c) => ({
+        ...c,
+        confidence: 100,
+        matchLevel: MatchLevel.EXACT_ID,
+        matchBadge: '🎯 EXACT',
+        matchReason: source.isbn && source.isbn === c.isbn ? `ISBN: ${c.isbn}` : `Barcode: ${c.gtin}`,
+      }));
+  }
+
   /**
    * Level 0.5: Product Number/SKU matching (NEW!)
    */
@@ -134,6 +164,8 @@ export class ProductMatcher {
       partNumber: source.sku || '',
       sku: source.sku || '',
       asin: source.productId || '',
+      gtin: source.gtin || '',
+      isbn: source.isbn || '',
       confidence: 100,
       source: 'attribute' as const
     };
@@ -150,6 +182,8 @@ export class ProductMatcher {
         partNumber: candidate.sku || '',
         sku: candidate.sku || '',
         asin: candidate.productId || '',
+        gtin: candidate.gtin || '',
+        isbn: candidate.isbn || '',
         confidence: 100,
         source: 'attribute' as const
       };
@@ -272,7 +306,7 @@ export class ProductMatcher {
         let confidence = Math.min(84, Math.max(70, Math.round(70 + similarity * 14)));
 
         // FUZZY PRICE MATCHING: Boost confidence if price is similar (0.7-1.3x range)
-        const priceRatio = candidate.numericPrice / source.numericPrice;
+        const priceRatio = pricePerItem(candidate) / pricePerItem(source);
         if (priceRatio >= 0.7 && priceRatio <= 1.3) {
           confidence = Math.min(95, confidence + 10); // Boost by 10%
           logger.debug(`Price boost: ${candidate.title.substring(0, 30)} (ratio: ${priceRatio.toFixed(2)})`);
@@ -320,7 +354,7 @@ export class ProductMatcher {
         let confidence = Math.min(69, Math.max(20, Math.round(20 + similarity * 49)));
 
         // FUZZY PRICE MATCHING: Boost confidence if price is similar (0.7-1.3x range)
-        const priceRatio = candidate.numericPrice / source.numericPrice;
+        const priceRatio = pricePerItem(candidate) / pricePerItem(source);
         if (priceRatio >= 0.7 && priceRatio <= 1.3) {
           confidence = Math.min(80, confidence + 15); // Larger boost for fuzzy matches
           logger.debug(`Fuzzy price boost: ${candidate.title.substring(0, 30)} (ratio: ${priceRatio.toFixed(2)})`);
@@ -408,11 +442,12 @@ export class ProductMatcher {
   /**
    * Extract all attributes from product
    */
-  private extractAttributes(product: Product): Required<ProductAttributes> {
+  private extractAttributes(product: Product): TitleAttributes {
+    const selected = product.attributes || {};
     const model = extractModel(product.title);
-    const storage = extractStorage(product.title);
-    const ram = extractRAM(product.title);
-    const color = extractColor(product.title);
+    const storage = selected.storage || extractStorage(product.title);
+    const ram = selected.ram || extractRAM(product.title);
+    const color = selected.color || extractColor(product.title);
     const brand = normalizeBrand(product.brand || ''); // BRAND NORMALIZATION
 
     return {
@@ -420,8 +455,8 @@ export class ProductMatcher {
       storage,
       ram,
       color,
-      size: '',
-      variant: '',
+      size: selected.size || '',
+      variant: selected.variant || '',
       brand,
     };
   }
@@ -0,0 +1,249 @@
+import { ErrorCode, RateLimitConfig } from '@/types';
+import { getSiteAdapter } from '@/adapters';
+import { FineDealError, cancelledError, isRateLimited, throwIfAborted } from '@/utils/helpers';
+import logger from '@/utils/logger';
+
+/**
+ * Request Scheduler
+ * Every site search waits here for a token from its host's bucket and a
+ * free slot under the global concurrency limit. Sites sharing a host (Amazon
+ * and Amazon Fresh) share a bucket, since the host rate-limits them together.
+ * A host that serves a CAPTCHA, or keeps returning empty pages, is paused
+ * with exponential backoff. The concurrency limit itself follows how loaded
+ * the browser is.
+ */
+
+export type SearchOutcome = 'ok' | 'empty' | 'blocked';
+
+export interface SchedulerOptions {
+  maxConcurrent: number; // Ceiling on searches in flight across all sites
+  limitFor: (site: string) => RateLimitConfig;
+  bucketFor: (site: string) => string; // Sites with the same bucket share limits
+}
+
+const MAX_CONCURRENT = 6;
+const START_CONCURRENT = 3;
+const INCREASE_AFTER = 3; // On-time searches before the limit grows by one
+const DECREASE_AFTER = 2; // Slow searches in a row before the limit halves
+const BACKOFF_BASE = 30 * 1000;
+const BACKOFF_MAX = 10 * 60 * 1000;
+// A whole comparison's worth of empty pages in a row looks like a soft block
+const EMPTY_STRIKES = 5;
+
+interface SiteState {
+  tokens: number;
+  refilledAt: number;
+  strikes: number; // Backoffs since the last good result
+  empties: number; // Empty pages in a row
+  pausedUntil: number;
+}
+
+interface Waiter {
+  site: string;
+  resolve: (release: () => void) => void;
+  reject: (error: FineDealError) => void;
+}
+
+export class RequestScheduler {
+  private readonly options: SchedulerOptions;
+  private readonly buckets = new Map<string, SiteState>();
+  private queue: Waiter[] = [];
+  private running = 0;
+  private concurrency: number;
+  private onTime = 0;
+  private slow = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = {
+      maxConcurrent: MAX_CONCURRENT,
+      limitFor: (site) => getSiteAdapter(site).getRateLimit(),
+      bucketFor: (site) => new URL(getSiteAdapter(site).config.searchUrl).hostname,
+      ...options,
+    };
+    this.concurrency = Math.min(START_CONCURRENT, this.options.maxConcurrent);
+  }
+
+  /**
+   * Current limit on searches in flight
+   */
+  get concurrencyLimit(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Wait until `site` may be searched; call the returned function once the
+   * search is done. Rejects with RATE_LIMIT while the site is paused.
+   */
+  async acquire(site: string, signal?: AbortSignal): Promise<() => void> {
+    throwIfAborted(signal);
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { site, resolve, reject };
+      this.queue.push(waiter);
+
+      signal?.addEventListener(
+        'abort',
+        () => {
+          if (!this.queue.includes(waiter)) return;
+          this.queue = this.queue.filter((queued) => queued !== waiter);
+          reject(cancelledError());
+        },
+        { once: true }
+      );
+
+      this.pump();
+    });
+  }
+
+  /**
+   * Run a search once the site may be searched and record its outcome:
+   * listings are 'ok', none 'empty', a RATE_LIMIT error 'blocked'. A null
+   * result (the search failed for another reason) records nothing.
+   */
+  async run<T extends { length: number } | null>(
+    site: string,
+    search: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const release = await this.acquire(site, signal);
+    try {
+      const result = await search();
+      if (result) this.report(site, result.length > 0 ? 'ok' : 'empty');
+      return result;
+    } catch (error) {
+      if (isRateLimited(error)) this.report(site, 'blocked');
+      throw error;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Record how a search went: a good page clears the site's strikes, a bot
+   * check (or a run of empty pages) pauses it
+   */
+  report(site: string, outcome: SearchOutcome): void {
+    const now = Date.now();
+    const state = this.state(site, now);
+
+    if (outcome === 'ok') {
+      state.strikes = 0;
+      state.empties = 0;
+      return;
+    }
+    if (outcome === 'empty' && ++state.empties < EMPTY_STRIKES) return;
+
+    state.empties = 0;
+    state.strikes++;
+    const delay = Math.min(BACKOFF_BASE * 2 ** (state.strikes - 1), BACKOFF_MAX);
+    state.pausedUntil = Math.max(state.pausedUntil, now + delay);
+    logger.warn(
+      `${site}: ${outcome === 'blocked' ? 'bot check' : 'empty pages'}, pausing searches for ${delay / 1000}s`
+    );
+    this.pump();
+  }
+
+  /**
+   * Adjust concurrency to browser load (AIMD): halve the limit when searches
+   * keep running slower than usual, add a slot after a run of on-time ones
+   */
+  reportLoad(slow: boolean): void {
+    if (slow) {
+      this.onTime = 0;
+      // A single straggler is more likely the site than the browser
+      if (++this.slow < DECREASE_AFTER) return;
+      this.slow = 0;
+      this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+      logger.info(`Browser is slow, searching ${this.concurrency} sites at a time`);
+      return;
+    }
+
+    this.slow = 0;
+    if (++this.onTime < INCREASE_AFTER || this.concurrency >= this.options.maxConcurrent) return;
+    this.onTime = 0;
+    this.concurrency++;
+    this.pump();
+  }
+
+  /**
+   * Hand out slots to waiters in order, skipping sites whose bucket is empty,
+   * and wake up again when the next token is due
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    let nextTokenIn = Infinity;
+
+    for (const waiter of [...this.queue]) {
+      const state = this.state(waiter.site, now);
+
+      if (state.pausedUntil > now) {
+        this.dequeue(waiter);
+        waiter.reject(
+          new FineDealError(
+            `Paused for ${Math.ceil((state.pausedUntil - now) / 1000)}s after being blocked`,
+            ErrorCode.RATE_LIMIT,
+            waiter.site,
+            { retryAt: state.pausedUntil }
+          )
+        );
+        continue;
+      }
+
+      // A release will pump again
+      if (this.running >= this.concurrency) return;
+
+      if (state.tokens >= 1) {
+        state.tokens -= 1;
+        this.running++;
+        this.dequeue(waiter);
+        waiter.resolve(this.releaser());
+      } else {
+        const { perMinute } = this.options.limitFor(waiter.site);
+        nextTokenIn = Math.min(nextTokenIn, ((1 - state.tokens) * 60000) / perMinute);
+      }
+    }
+
+    if (nextTokenIn < Infinity) {
+      this.timer = setTimeout(() => this.pump(), Math.ceil(nextTokenIn));
+    }
+  }
+
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.running--;
+      this.pump();
+    };
+  }
+
+  private dequeue(waiter: Waiter): void {
+    this.queue = this.queue.filter((queued) => queued !== waiter);
+  }
+
+  /**
+   * The state of a site's bucket, refilled up to now
+   */
+  private state(site: string, now: number): SiteState {
+    const { burst, perMinute } = this.options.limitFor(site);
+    const bucket = this.options.bucketFor(site);
+    let state = this.buckets.get(bucket);
+    if (!state) {
+      state = { tokens: burst, refilledAt: now, strikes: 0, empties: 0, pausedUntil: 0 };
+      this.buckets.set(bucket, state);
+    }
+
+    state.tokens = Math.min(burst, state.tokens + ((now - state.refilledAt) * perMinute) / 60000);
+    state.refilledAt = now;
+    return state;
+  }
+}
+
+export const scheduler = new RequestScheduler();
@@ -0,0 +1,155 @@
+import {
+  FieldHealth,
+  SelectorHealthReport,
+  SelectorPage,
+  SelectorTrace,
+  SiteHealth,
+} from '@/types';
+import logger from '@/utils/logger';
+
+/**
+ * Selector Health Telemetry
+ * Records which selector matched per site and field on every scrape, so a
+ * retailer markup change shows up as a broken field instead of comparisons
+ * quietly returning nothing.
+ */
+
+const STORAGE_KEY = 'selector_health';
+const RECENT_WINDOW = 10; // Outcomes kept per field
+export const BROKEN_THRESHOLD = 5; // Consecutive misses before a field is flagged
+
+// Fields every listing has. Others (rating, image, variants, specs...) are
+// legitimately absent on many products, so their misses are recorded but
+// never flag a site as broken.
+const REQUIRED_FIELDS: Record<SelectorPage, string[]> = {
+  searchPage: ['container', 'title', 'price'],
+  productPage: ['title', 'price'],
+};
+
+/**
+ * Collects selector outcomes during a single scrape.
+ * A field hit on any tile counts as a hit (keeping the best index seen);
+ * it is only a miss when no attempt matched.
+ */
+export class SelectorTraceCollector implements SelectorTrace {
+  private outcomes: SelectorHealthReport = {};
+
+  field(name: string): (index: number) => void {
+    return (index: number) => this.record(name, index);
+  }
+
+  record(field: string, index: number): void {
+    const previous = this.outcomes[field];
+
+    if (previous === undefined || previous === -1 || (index >= 0 && index < previous)) {
+      this.outcomes[field] = index;
+    }
+  }
+
+  toReport(): SelectorHealthReport {
+    return { ...this.outcomes };
+  }
+}
+
+export interface BrokenField {
+  site: string;
+  field: string;
+  consecutiveMisses: number;
+  lastSuccess?: number;
+}
+
+export class SelectorHealthMonitor {
+  // Serializes read-modify-write cycles on storage
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Merge one scrape's outcomes into persisted counts
+   */
+  record(site: string, page: SelectorPage, report: SelectorHealthReport): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .then(() => this.persist(site, page, report))
+      .catch((error) => logger.error('Selector health write error:', error));
+    return this.writeQueue;
+  }
+
+  private async persist(site: string, page: SelectorPage, report: SelectorHealthReport) {
+    const all = await this.getAll();
+    const now = Date.now();
+    const siteHealth: SiteHealth = all[site] || { lastScrape: now, fields: {} };
+
+    Object.entries(report).forEach(([field, index]) => {
+      const key = `${page}.${field}`;
+      const health: FieldHealth = siteHealth.fields[key] || { hits: {}, misses: 0, recent: [] };
+
+      if (index >= 0) {
+        health.hits[index] = (health.hits[index] || 0) + 1;
+        health.lastSuccess = now;
+      } else {
+        health.misses += 1;
+      }
+
+      health.recent = [...health.recent, index].slice(-RECENT_WINDOW);
+      siteHealth.fields[key] = health;
+    });
+
+    siteHealth.lastScrape = now;
+    all[site] = siteHealth;
+    await chrome.storage.local.set({ [STORAGE_KEY]: all });
+  }
+
+  /**
+   * Get persisted health for every site
+   */
+  async getAll(): Promise<Record<string, SiteHealth>> {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    return result[STORAGE_KEY] || {};
+  }
+
+  /**
+   * Fields that missed on each of their last `threshold` scrapes
+   */
+  async getBrokenFields(threshold = BROKEN_THRESHOLD): Promise<BrokenField[]> {
+    return findBrokenFields(await this.getAll(), threshold);
+  }
+
+  async clear(): Promise<void> {
+    await chrome.storage.local.remove(STORAGE_KEY);
+  }
+}
+
+/**
+ * Find required fields whose most recent `threshold` outcomes are all misses
+ */
+export function findBrokenFields(
+  health: Record<string, SiteHealth>,
+  threshold = BROKEN_THRESHOLD
+): BrokenField[] {
+  const broken: BrokenField[] = [];
+
+  Object.entries(health).forEach(([site, siteHealth]) => {
+    Object.entries(siteHealth.fields).forEach(([field, fieldHealth]) => {
+      if (!isRequiredField(field)) return;
+
+      let consecutiveMisses = 0;
+      for (let i = fieldHealth.recent.length - 1; i >= 0 && fieldHealth.recent[i] === -1; i--) {
+        consecutiveMisses++;
+      }
+
+      if (consecutiveMisses >= threshold) {
+        broken.push({ site, field, consecutiveMisses, lastSuccess: fieldHealth.lastSuccess });
+      }
+    });
+  });
+
+  return broken;
+}
+
+/**
+ * Whether a "page.field" key names a field every listing has
+ */
+function isRequiredField(key: string): boolean {
+  const [page, field] = key.split('.') as [SelectorPage, string];
+  return REQUIRED_FIELDS[page]?.includes(field) ?? false;
+}
+
+export const selectorHealth = new SelectorHealthMonitor();
@@ -0,0 +1,45 @@
+import { UserSettings } from '@/types';
+import logger from '@/utils/logger';
+
+/**
+ * User Settings
+ * Preferences that shape which results are shown and how they are ranked.
+ */
+
+const STORAGE_KEY = 'user_settings';
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  onlyFulfilledSellers: false,
+  ownedCards: [],
+  regions: ['IN'],
+  exchangeRates: {},
+  rankByUnitPrice: false,
+  includeOtherConditions: false,
+  sponsoredResults: 'downweight',
+};
+
+export class SettingsService {
+  /**
+   * Get settings, with defaults for anything not yet saved
+   */
+  async get(): Promise<UserSettings> {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEY);
+      return { ...DEFAULT_SETTINGS, ...result[STORAGE_KEY] };
+    } catch (error) {
+      logger.error('Settings read error:', error);
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  /**
+   * Merge changes into saved settings and return the result
+   */
+  async update(changes: Partial<UserSettings>): Promise<UserSettings> {
+    const next = { ...(await this.get()), ...changes };
+    await chrome.storage.local.set({ [STORAGE_KEY]: next });
+    return next;
+  }
+}
+
+export const settings = new SettingsService();
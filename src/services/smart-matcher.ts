@@ -1,6 +1,11 @@
-import { Product, MatchResult, MatchLevel, ProductAttributes } from '@/types';
+import { Product, MatchResult, MatchLevel, ProductAttributes, SponsoredHandling } from '@/types';
 import { extractModel, extractStorage, extractRAM, extractColor } from '@/utils/product';
+import { parseBattery, parseDisplaySize } from '@/utils/spec-table';
 import { normalizeBrand, brandsMatch } from '@/utils/brand-normalization';
+import { identifiersMatch } from '@/utils/product-number-extractor';
+import { parsePackCount } from '@/utils/quantity';
+import { conditionsMatch } from '@/utils/condition';
+import { isSponsoredListing } from '@/utils/sponsored';
 import logger from '@/utils/logger';
 
 /**
@@ -20,7 +25,7 @@ import logger from '@/utils/logger';
  * SCORING BREAKDOWN (Total: 100 points):
  * - Brand match: 25 points
  * - Model match: 30 points
- * - Specs match (storage/RAM/color): 20 points
+ * - Specs match (storage/RAM/color/pack count, spec-table model number/processor/display): 20 points
  * - Title similarity: 15 points
  * - Category match: 10 points
  * 
@@ -42,9 +47,15 @@ interface ScoringBreakdown {
   total: number;
 }
 
+export interface SmartMatchOptions {
+  anyCondition?: boolean; // Also match renewed/refurbished/used listings against a new product
+  sponsored?: SponsoredHandling; // Default: 'downweight'
+}
+
 export class SmartMatcher {
   private readonly MIN_CONFIDENCE = 70; // More lenient than 85, but with smart filtering
   private readonly MAX_RESULTS = 8;
+  private readonly SPONSORED_PENALTY = 10; // Points off a down-weighted sponsored tile
   
   // Weight distribution (total = 100)
   private readonly WEIGHTS = {
@@ -67,7 +78,11 @@ export class SmartMatcher {
   /**
    * Main matching method - uses smart weighted scoring
    */
-  async findMatches(sourceProduct: Product, candidates: Product[]): Promise<MatchResult[]> {
+  async findMatches(
+    sourceProduct: Product,
+    candidates: Product[],
+    options: SmartMatchOptions = {}
+  ): Promise<MatchResult[]> {
     logger.time('Smart Matching v4.0');
     logger.group('🧠 Smart Matcher v4.0');
     logger.info(`Source: ${sourceProduct.title}`);
@@ -78,17 +93,44 @@ export class SmartMatcher {
       const validCandidates = this.preprocessCandidates(candidates);
       logger.info(`✅ Valid candidates: ${validCandidates.length}`);
 
+      // Step 1a: Keep conditions consistent - a renewed phone has the new one's title (and barcode)
+      const sameCondition = options.anyCondition
+        ? validCandidates
+        : validCandidates.filter((candidate) =>
+            conditionsMatch(sourceProduct.condition, candidate.condition)
+          );
+      logger.info(`✅ Same condition: ${sameCondition.length}`);
+
+      // Step 1b: Sponsored tiles are dropped here or down-weighted when scored
+      const sponsored = options.sponsored || 'downweight';
+      const eligible =
+        sponsored === 'exclude'
+          ? sameCondition.filter((candidate) => !isSponsoredListing(candidate))
+          : sameCondition;
+
+      // Step 1c: Same GTIN/ISBN is a definitive match - bypasses category filter and scoring
+      const identifierMatches: MatchResult[] = [];
+      const unidentified: Product[] = [];
+      eligible.forEach((candidate) => {
+        if (identifiersMatch(sourceProduct, candidate)) {
+          identifierMatches.push(this.buildIdentifierMatch(sourceProduct, candidate));
+        } else {
+          unidentified.push(candidate);
+        }
+      });
+      logger.info(`🎯 Barcode matches: ${identifierMatches.length}`);
+
       // Step 2: Detect source category
       const sourceCategory = this.detectCategory(sourceProduct);
       logger.info(`📦 Source category: ${sourceCategory}`);
 
       // Step 3: Filter by category (strict)
-      const categoryFiltered = this.filterByCategory(sourceProduct, sourceCategory, validCandidates);
+      const categoryFiltered = this.filterByCategory(sourceProduct, sourceCategory, unidentified);
       logger.info(`✅ Category filtered: ${categoryFiltered.length}`);
 
       if (categoryFiltered.length === 0) {
         logger.warn('⚠️ No candidates after category filtering');
-        return [];
+        return identifierMatches.slice(0, this.MAX_RESULTS);
       }
 
       // Step 4: Extract features from source
@@ -102,11 +144,18 @@ export class SmartMatcher {
       });
 
       // Step 5: Score all candidates
-      const scoredMatches: Array<MatchResult & { scoring?: ScoringBreakdown }> = [];
+      // Barcode matches go first so they win ties with perfect heuristic scores
+      const scoredMatches: Array<MatchResult & { scoring?: ScoringBreakdown }> = [
+        ...identifierMatches,
+      ];
       
       for (const candidate of categoryFiltered) {
         const candidateFeatures = this.extractFeatures(candidate);
         const scoring = this.calculateScore(sourceFeatures, candidateFeatures, sourceProduct, candidate);
+        // Ads must clear the threshold with points to spare
+        if (sponsored === 'downweight' && isSponsoredListing(candidate)) {
+          scoring.total -= this.SPONSORED_PENALTY;
+        }
         
         // Apply confidence threshold
         if (scoring.total >= this.MIN_CONFIDENCE) {
@@ -152,6 +201,20 @@ export class SmartMatcher {
     }
   }
 
+  /**
+   * Result for a candidate sharing the source's GTIN or ISBN
+   */
+  private buildIdentifierMatch(source: Product, candidate: Product): MatchResult {
+    const isbn = !!source.isbn && source.isbn === candidate.isbn;
+    return {
+      ...candidate,
+      confidence: 100,
+      matchLevel: MatchLevel.EXACT_ID,
+      matchBadge: '🎯 EXACT',
+      matchReason: isbn ? `ISBN: ${candidate.isbn}` : `Barcode: ${candidate.gtin}`,
+    };
+  }
+
   /**
    * Preprocess candidates - validation and cleanup
    */
@@ -222,12 +285,20 @@ export class SmartMatcher {
   private extractFeatures(product: Product) {
     const titleLower = product.title.toLowerCase();
     
-    // Extract attributes
+    // Extract attributes (the selected variant wins over the title)
+    const selected = product.attributes || {};
     const brand = normalizeBrand(product.brand || '');
     const model = extractModel(product.title);
-    const storage = extractStorage(product.title);
-    const ram = extractRAM(product.title);
-    const color = extractColor(product.title);
+    const storage = selected.storage || extractStorage(product.title);
+    const ram = selected.ram || extractRAM(product.title);
+    const color = selected.color || extractColor(product.title);
+    const packCount = product.packCount || parsePackCount(product.title);
+
+    // Spec-table attributes; search tiles have none, so sizes fall back to the title
+    const modelNumber = selected.modelNumber || '';
+    const processor = selected.processor || '';
+    const displaySize = selected.displaySize ?? parseDisplaySize(product.title);
+    const battery = selected.battery ?? parseBattery(product.title);
     
     // Tokenization (remove stop words and special chars)
     const tokens = this.tokenize(product.title);
@@ -248,6 +319,11 @@ export class SmartMatcher {
       storage,
       ram,
       color,
+      packCount,
+      modelNumber,
+      processor,
+      displaySize,
+      battery,
       tokens,
       bigrams,
       trigrams,
@@ -329,8 +405,11 @@ export class SmartMatcher {
     // 5. Category Score (10 points)
     const categoryScore = this.scoreCategory(sourceProduct.category, candidateProduct.category);
     
-    // 6. Price proximity bonus (0-5 bonus points)
-    const priceScore = this.scorePriceProximity(sourceProduct.numericPrice, candidateProduct.numericPrice);
+    // 6. Price proximity bonus (0-5 bonus points), per item so multipacks aren't penalized
+    const priceScore = this.scorePriceProximity(
+      sourceProduct.numericPrice / source.packCount,
+      candidateProduct.numericPrice / candidate.packCount
+    );
     
     // Total score
     const total = Math.min(100, brandScore + modelScore + specsScore + titleScore + categoryScore + priceScore);
@@ -407,7 +486,7 @@ export class SmartMatcher {
   }
 
   /**
-   * Score specs match (storage, RAM, color) (0-20 points)
+   * Score specs match (storage, RAM, color, spec-table details) (0-20 points)
    */
   private scoreSpecs(source: ReturnType<typeof this.extractFeatures>, candidate: ReturnType<typeof this.extractFeatures>): number {
     let score = 0;
@@ -436,8 +515,51 @@ export class SmartMatcher {
         score += 4;
       }
     }
-    
-    return score;
+
+    // Pack count (4 points): a "Pack of 3" is the same item but not the same listing
+    if (source.packCount > 1 || candidate.packCount > 1) {
+      if (source.packCount === candidate.packCount) {
+        score += 4;
+      }
+    }
+
+    // Spec-table model number found on the candidate (8 points)
+    const modelNumber = compactSpec(source.modelNumber);
+    if (modelNumber.length >= 4) {
+      if (
+        compactSpec(candidate.modelNumber) === modelNumber ||
+        compactSpec(candidate.titleLower).includes(modelNumber)
+      ) {
+        score += 8;
+      }
+    }
+
+    // Processor (4 points)
+    const processor = coreProcessorName(source.processor);
+    if (processor) {
+      const candidateProcessor = coreProcessorName(candidate.processor);
+      if (
+        candidateProcessor
+          ? candidateProcessor === processor
+          : candidate.titleLower.includes(processor)
+      ) {
+        score += 4;
+      }
+    }
+
+    // Display size (4 points) and battery (2 points), allowing for rounding
+    if (source.displaySize && candidate.displaySize) {
+      if (Math.abs(source.displaySize - candidate.displaySize) <= 0.1) {
+        score += 4;
+      }
+    }
+    if (source.battery && candidate.battery) {
+      if (Math.abs(source.battery - candidate.battery) <= source.battery * 0.02) {
+        score += 2;
+      }
+    }
+
+    return Math.min(score, this.WEIGHTS.SPECS);
   }
 
   /**
@@ -604,6 +726,10 @@ export class SmartMatcher {
         reasons.push(`Specs: ${specs.join(', ')}`);
       }
     }
+
+    if (features.packCount > 1) {
+      reasons.push(`Pack of ${features.packCount}`);
+    }
     
     if (scoring.titleScore >= 10) {
       reasons.push('Similar title');
@@ -613,5 +739,26 @@ export class SmartMatcher {
   }
 }
 
+/**
+ * Lowercase alphanumerics only, so "MTP03HN/A" matches "mtp03hna"
+ */
+function compactSpec(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Processor name without vendor and marketing words: "Apple A16 Bionic Chip" → "a16 bionic"
+ */
+function coreProcessorName(processor: string): string {
+  const core = processor
+    .toLowerCase()
+    .replace(/\b(apple|qualcomm|mediatek|intel|amd|samsung|google|chip|processor|cpu|soc)\b/g, ' ')
+    .replace(/\b(octa|hexa|quad|dual|\d+)[\s-]?core\b/g, ' ')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return core.length >= 3 ? core : '';
+}
+
 // Export singleton instance
 export const smartMatcher = new SmartMatcher();
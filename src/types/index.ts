@@ -11,12 +11,115 @@ export interface Product {
   productId: string;
   brand: string;
   category: string;
-  attributes?: ProductAttributes;
+  attributes?: ProductAttributes; // Selected variant from the page's variant picker
   productNumber?: string; // SKU, model number, or part number
   sku?: string; // Specific SKU code
   availability?: 'in-stock' | 'out-of-stock' | 'limited-stock' | 'unknown';
+  currency?: string; // ISO 4217 code, e.g. "INR"
+  gtin?: string; // Check-digit validated GTIN/EAN/UPC barcode (13 digits, 8 for EAN-8)
+  isbn?: string; // Check-digit validated ISBN-13, books only
+  mrp?: number; // Struck-through list price, when shown
+  salePrice?: number; // Selling price (same as numericPrice once resolved)
+  discountPercent?: number; // Advertised discount off MRP
+  seller?: SellerInfo; // Marketplace seller, when the listing names one
+  delivery?: DeliveryInfo; // Delivery charge and promised date, when shown
+  offers?: Offer[]; // Bank card offers and coupons listed with the price
+  rating?: number; // Average star rating, out of 5
+  reviewCount?: number; // Number of ratings behind the average
+  converted?: PriceConversion; // Set when prices were converted from another currency
+  netQuantity?: NetQuantity; // Contents of the listing, for per-ml/per-g comparisons
+  packCount?: number; // Items in a multipack ("Pack of 3"), set when more than one
+  condition?: ProductCondition; // New unless the title, a badge, or the URL says otherwise
+  fieldSources?: Partial<Record<ProductDataField, ProductDataSource>>;
 }
 
+/**
+ * Sponsored search tiles are either dropped before matching or scored lower
+ */
+export type SponsoredHandling = 'exclude' | 'downweight';
+
+/**
+ * Listing condition: Amazon Renewed, refurbished, open-box returns, or used
+ */
+export type ProductCondition = 'new' | 'renewed' | 'refurbished' | 'used' | 'open-box';
+
+/**
+ * Net contents in base units: millilitres, grams, or a count of items
+ */
+export type QuantityUnit = 'ml' | 'g' | 'count';
+
+export interface NetQuantity {
+  value: number;
+  unit: QuantityUnit;
+}
+
+/**
+ * Price per 100 ml, per 100 g, or per item
+ */
+export interface UnitPrice {
+  price: number;
+  per: number; // 100 for ml/g, 1 for count
+  unit: QuantityUnit;
+}
+
+/**
+ * Listing price before conversion into the home currency
+ */
+export interface PriceConversion {
+  currency: string; // Original ISO 4217 code
+  price: string; // Original price text
+  rate: number; // Home-currency units per unit of the original currency
+}
+
+/**
+ * Where an extracted product field came from
+ */
+export type ProductDataField =
+  | 'title'
+  | 'price'
+  | 'currency'
+  | 'brand'
+  | 'image'
+  | 'sku'
+  | 'gtin'
+  | 'mrp'
+  | 'rating'
+  | 'reviewCount'
+  | 'availability'
+  | 'condition';
+
+/**
+ * Marketplace fulfilment programmes: Fulfilled by Amazon, Flipkart Assured, Snapdeal Plus
+ */
+export type FulfilmentBadge = 'fba' | 'assured' | 'plus';
+
+export interface SellerInfo {
+  name?: string;
+  rating?: number; // Out of 5
+  fulfilment?: FulfilmentBadge;
+}
+
+export interface DeliveryInfo {
+  fee?: number; // 0 for free delivery
+  etaDays?: number; // Days from scrape time until promised delivery
+  etaText?: string; // Date as the site shows it, e.g. "Wed, 22 Oct"
+}
+
+/**
+ * Bank card offer ("10% off with HDFC cards up to ₹1,500") or on-page coupon
+ */
+export interface Offer {
+  kind: 'bank' | 'coupon';
+  bank?: string; // Issuing bank id for card offers, e.g. "hdfc"
+  discountType: 'percent' | 'flat';
+  value: number; // Percentage or flat amount off
+  maxDiscount?: number; // Cap on a percentage discount
+  minSpend?: number; // Minimum order value for the offer to apply
+  text: string; // Offer as the site words it
+}
+
+export type ProductDataSource = 'json-ld' | 'microdata' | 'opengraph' | 'selector' | 'heuristic';
+
 export interface ProductAttributes {
   model?: string;
   storage?: string;
@@ -25,6 +128,12 @@ export interface ProductAttributes {
   size?: string;
   variant?: string;
   brand?: string;
+  modelNumber?: string; // Manufacturer model / part number from the spec table
+  processor?: string;
+  displaySize?: number; // Inches
+  battery?: number; // mAh
+  weight?: number; // Grams
+  specs?: Record<string, string>; // Raw spec table rows
 }
 
 /**
@@ -57,6 +166,55 @@ export interface SiteConfig {
   selectors: SiteSelectors;
   enabled: boolean;
   priority: number;
+  searchMode?: SearchMode;
+  scraping?: Partial<ScrapeDepthConfig>;
+  rateLimit?: Partial<RateLimitConfig>;
+  fulfilmentBadge?: FulfilmentBadge; // Set for marketplaces with a fulfilment programme
+  region?: RegionCode; // Storefront country; India when omitted
+  categories?: string[]; // Top-level categories sold ('electronics' covers 'electronics-phone'); all when omitted
+}
+
+/**
+ * Storefront countries. Each region fixes the currency and how prices are written.
+ */
+export type RegionCode = 'IN' | 'US' | 'UK' | 'DE';
+
+export interface RegionConfig {
+  name: string;
+  currency: string; // ISO 4217 code
+  locale: string; // BCP 47 locale used to format prices
+  decimalSeparator: '.' | ','; // "1,299.00" vs "1.299,00"
+  fractionDigits: number; // Minor units kept when parsing prices (0 for whole rupees)
+  currencySymbols: string[]; // How listings write the currency, matched case-insensitively
+}
+
+/**
+ * 'tab' opens the search page in a background tab (JS-rendered sites);
+ * 'fetch' downloads the HTML and parses it offscreen (server-rendered sites)
+ */
+export type SearchMode = 'tab' | 'fetch';
+
+export type ScrapeMode = 'single' | 'infinite-scroll' | 'paginated';
+
+/**
+ * How deep to read a site's search results
+ */
+export interface ScrapeDepthConfig {
+  mode: ScrapeMode;
+  maxResults: number; // Tiles kept across all scrolls/pages
+  maxScrolls: number; // infinite-scroll: scroll-to-load attempts
+  maxPages: number; // paginated: pages visited, including the first
+  nextPage: string[]; // paginated: selectors for the "next page" link
+  enoughCandidates: number; // Stop early once this many tiles closely match the query
+}
+
+/**
+ * How often a site may be searched: a token bucket holding `burst` requests,
+ * refilled at `perMinute`
+ */
+export interface RateLimitConfig {
+  burst: number; // Requests allowed back to back
+  perMinute: number; // Sustained request rate
 }
 
 export interface SiteSelectors {
@@ -66,6 +224,15 @@ export interface SiteSelectors {
     image: string[];
     productId: string[];
     brand?: string[];
+    mrp?: string[];
+    seller?: SellerSelectors;
+    delivery?: string[];
+    offers?: string[]; // One element per offer line
+    rating?: string[];
+    reviewCount?: string[];
+    variant?: VariantSelectors;
+    specs?: string[]; // Spec table / technical details containers
+    condition?: string[]; // Renewed / refurbished / open-box badges
   };
   searchPage: {
     container: string[];
@@ -74,14 +241,91 @@ export interface SiteSelectors {
     image: string[];
     link: string[];
     productId?: string[];
+    mrp?: string[];
+    seller?: SellerSelectors;
+    delivery?: string[];
+    offers?: string[]; // One element per offer line
+    rating?: string[];
+    reviewCount?: string[];
+    condition?: string[]; // Renewed / refurbished / open-box badges
+    sponsored?: string[]; // Presence marks a paid placement
   };
 }
 
+export interface SellerSelectors {
+  name?: string[];
+  rating?: string[];
+  fulfilled?: string[]; // Presence marks the listing as fulfilled by the marketplace
+  container?: string[]; // Seller / buy-box block, searched for fulfilment text on product pages
+}
+
+/**
+ * Selected option in each variant picker dimension (the chosen swatch, not the list)
+ */
+export interface VariantSelectors {
+  storage?: string[];
+  ram?: string[];
+  color?: string[];
+  size?: string[];
+}
+
+/**
+ * Site Adapter - owns all site-specific extraction and URL logic
+ */
+export interface SiteAdapter {
+  readonly site: string;
+  readonly config: SiteConfig;
+  matchesHostname(hostname: string): boolean;
+  buildSearchUrl(query: string): string;
+  canonicalizeUrl(url: string): string;
+  getReadySelectors(): string[];
+  extractProduct(doc: Document, pageUrl: string, trace?: SelectorTrace): Product;
+  extractSearchResults(doc: Document, pageUrl: string, trace?: SelectorTrace): ScrapedProduct[];
+  getScrapeDepth(): ScrapeDepthConfig;
+  getRateLimit(): RateLimitConfig;
+  getSearchMode(): SearchMode;
+  findNextPageUrl(doc: Document, pageUrl: string): string | null;
+}
+
+/**
+ * Selector Health Types
+ */
+export type SelectorPage = 'productPage' | 'searchPage';
+
+// Per field: index of the selector that matched during one scrape, or -1 for a miss
+export type SelectorHealthReport = Record<string, number>;
+
+export interface SelectorTrace {
+  field(name: string): (index: number) => void;
+  toReport(): SelectorHealthReport;
+}
+
+export interface FieldHealth {
+  hits: Record<number, number>; // selector index -> times it matched
+  misses: number;
+  recent: number[]; // latest outcomes, newest last
+  lastSuccess?: number;
+}
+
+export interface SiteHealth {
+  lastScrape: number;
+  fields: Record<string, FieldHealth>; // keyed "<page>.<field>"
+}
+
+/**
+ * Timed steps of a site search: 'fetch' is a whole fetch-mode search; a tab
+ * search is 'load' (page load), 'ready' (results rendered) and 'scrape'
+ */
+export type LatencyPhase = 'fetch' | 'load' | 'ready' | 'scrape';
+
+export type SiteLatency = Partial<Record<LatencyPhase, number[]>>; // Recent durations in ms, oldest first
+
 /**
  * Scraping Results
  */
 export interface ScrapedProduct extends Omit<Product, 'numericPrice'> {
   numericPrice?: number;
+  isSponsored?: boolean; // Paid placement ("Sponsored", "Ad"), set only when true
 }
 
 export interface ScrapeResult {
@@ -142,6 +386,7 @@ export enum ErrorCode {
   INVALID_PRODUCT = 'INVALID_PRODUCT',
   TIMEOUT = 'TIMEOUT',
   RATE_LIMIT = 'RATE_LIMIT',
+  CANCELLED = 'CANCELLED',
 }
 
 export interface ExtensionError extends Error {
@@ -158,20 +403,104 @@ export type MessageType =
   | 'GET_SEARCH_RESULTS'
   | 'WAIT_FOR_PAGE_READY'
   | 'START_COMPARISON'
+  | 'CANCEL_COMPARISON'
   | 'UPDATE_PROGRESS'
   | 'COMPARISON_COMPLETE'
   | 'ERROR'
-  | 'SHOW_PRICE_DROP_NOTIFICATION';
+  | 'SHOW_PRICE_DROP_NOTIFICATION'
+  | 'RECORD_SELECTOR_HEALTH'
+  | 'PARSE_SEARCH_HTML'
+  | 'PRODUCT_UPDATED';
+
+/**
+ * Service worker → offscreen document: parse a fetched search page
+ */
+export interface ParseSearchRequest {
+  site: string;
+  html: string;
+  pageUrl: string;
+  query?: string;
+}
+
+export interface ParseSearchResult {
+  products: ScrapedProduct[];
+  nextPageUrl: string | null;
+  blocked?: boolean; // A CAPTCHA or bot check was served instead of results
+  report: SelectorHealthReport;
+}
+
+/**
+ * User preferences persisted in chrome.storage.local
+ */
+export interface UserSettings {
+  onlyFulfilledSellers: boolean; // Hide marketplace listings without a fulfilment badge
+  ownedCards: string[]; // Bank ids whose card offers apply to the user
+  regions: RegionCode[]; // Storefront countries searched during a comparison
+  exchangeRates: Record<string, number>; // Currency code -> home-currency units per unit
+  rankByUnitPrice: boolean; // Rank by price per 100 ml/100 g/item when the product has a quantity
+  includeOtherConditions: boolean; // Show renewed, refurbished, open-box and used listings for a new product
+  sponsoredResults: SponsoredHandling; // What matching does with paid placements
+}
+
+export type SiteSearchStatus =
+  | 'pending'
+  | 'searching'
+  | 'scraping'
+  | 'matching'
+  | 'complete'
+  | 'error';
 
 export interface ChromeMessage<T = any> {
   type: MessageType;
   data?: T;
 }
 
+/**
+ * Where one competitor site is in a comparison. Statuses only move forward.
+ */
 export interface ProgressUpdate {
   site: string;
-  status: 'pending' | 'searching' | 'scraping' | 'matching' | 'complete' | 'error';
+  status: SiteSearchStatus;
   productsFound?: number;
   matchesFound?: number;
   error?: string;
 }
+
+/**
+ * Popup → service worker: compare the product open in a tab
+ */
+export interface StartComparisonRequest {
+  tabId: number;
+  product: Product;
+}
+
+/**
+ * Popup → service worker: stop the comparison running for a tab
+ */
+export interface CancelComparisonRequest {
+  tabId: number;
+}
+
+/**
+ * A comparison run by the service worker, kept in chrome.storage.session so
+ * the popup can reattach to it after being closed and reopened
+ */
+export interface ComparisonJob {
+  id: string;
+  tabId: number; // Tab showing the product being compared
+  product: Product; // Product as read from the page
+  status: 'running' | 'complete' | 'error' | 'cancelled';
+  progress: string; // Latest progress message
+  sites: ProgressUpdate[]; // One entry per competitor site
+  searchTabs: number[]; // Background search tabs still open
+  startedAt: number;
+  finishedAt?: number;
+  result?: ComparisonJobResult; // Matches so far while running, final once complete
+  error?: string;
+}
+
+export interface ComparisonJobResult {
+  original: Product; // Source product in the home currency
+  matches: MatchResult[];
+  hasSimilar: boolean;
+}
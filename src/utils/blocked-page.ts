@@ -0,0 +1,26 @@
+/**
+ * Blocked Pages
+ * Sites answer bursts of searches with a CAPTCHA or bot check instead of
+ * results. Recognizing one lets the scheduler back off rather than retry.
+ */
+
+const CHALLENGE_SELECTORS = [
+  'form[action*="validateCaptcha"]', // Amazon
+  '#captchacharacters',
+  'form[action*="captcha" i]',
+  'iframe[src*="recaptcha"]',
+  'iframe[src*="hcaptcha"]',
+  '.g-recaptcha',
+  '#px-captcha', // PerimeterX
+  '#challenge-form', // Cloudflare
+];
+
+const CHALLENGE_TITLE = /robot check|captcha|are you a human|access denied|attention required/i;
+
+/**
+ * Whether a search page with no result tiles is a bot challenge
+ */
+export function isBlockedPage(doc: Document): boolean {
+  if (CHALLENGE_TITLE.test(doc.title)) return true;
+  return CHALLENGE_SELECTORS.some((selector) => doc.querySelector(selector) !== null);
+}
@@ -1,5 +1,7 @@
 /**
  * Smart Caching System - Cache product results for 5-10 minutes
+ * Entries share chrome.storage.local with settings and history, so every
+ * cache key carries KEY_PREFIX and housekeeping only touches those keys.
  */
 
 interface CacheEntry {
@@ -10,6 +12,7 @@ interface CacheEntry {
 
 const DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes
 const MAX_CACHE_SIZE = 100; // Maximum cached items
+const KEY_PREFIX = 'cache:';
 
 export class SmartCache {
   /**
@@ -17,8 +20,8 @@ export class SmartCache {
    */
   async get<T>(key: string): Promise<T | null> {
     try {
-      const result = await chrome.storage.local.get(key);
-      const entry: CacheEntry | undefined = result[key];
+      const result = await chrome.storage.local.get(cacheKey(key));
+      const entry: CacheEntry | undefined = result[cacheKey(key)];
       
       if (!entry) {
         return null;
@@ -51,7 +54,7 @@ export class SmartCache {
         ttl
       };
       
-      await chrome.storage.local.set({ [key]: entry });
+      await chrome.storage.local.set({ [cacheKey(key)]: entry });
     } catch (error) {
       console.error('Cache set error:', error);
     }
@@ -62,18 +65,21 @@ export class SmartCache {
    */
   async delete(key: string): Promise<void> {
     try {
-      await chrome.storage.local.remove(key);
+      await chrome.storage.local.remove(cacheKey(key));
     } catch (error) {
       console.error('Cache delete error:', error);
     }
   }
   
   /**
-   * Clear all cached data
+   * Clear all cached data, leaving other extension storage alone
    */
   async clear(): Promise<void> {
     try {
-      await chrome.storage.local.clear();
+      const keys = Object.keys(await this.entries());
+      if (keys.length > 0) {
+        await chrome.storage.local.remove(keys);
+      }
     } catch (error) {
       console.error('Cache clear error:', error);
     }
@@ -84,7 +90,7 @@ export class SmartCache {
    */
   async cleanExpired(): Promise<void> {
     try {
-      const all = await chrome.storage.local.get(null);
+      const all = await this.entries();
       const keysToDelete: string[] = [];
       const now = Date.now();
       
@@ -120,7 +126,15 @@ export class SmartCache {
    * Generate cache key for product search
    */
   generateKey(site: string, query: string): string {
-    return `cache:${site}:${this.hashString(query)}`;
+    return `${site}:${this.hashString(query)}`;
+  }
+
+  /**
+   * Cache entries in storage, by storage key
+   */
+  private async entries(): Promise<Record<string, CacheEntry>> {
+    const all = await chrome.storage.local.get(null);
+    return Object.fromEntries(Object.entries(all).filter(([key]) => key.startsWith(KEY_PREFIX)));
   }
   
   /**
@@ -137,4 +151,8 @@ export class SmartCache {
   }
 }
 
+function cacheKey(key: string): string {
+  return `${KEY_PREFIX}${key}`;
+}
+
 export const smartCache = new SmartCache();
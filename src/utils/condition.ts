@@ -0,0 +1,106 @@
+import { ProductCondition } from '@/types';
+import { queryAll } from './dom';
+
+/**
+ * Listing Condition
+ * Renewed, refurbished, open-box and used listings share the new product's
+ * title almost word for word, so they are classified from the title, badges
+ * and URL and kept apart from new listings when matching.
+ */
+
+// Checked in order: "Renewed" and "Open Box" are more specific than "Refurbished"
+const CONDITION_TEXT: Array<[ProductCondition, RegExp]> = [
+  ['renewed', /\b(amazon\s+)?renewed\b/i],
+  ['open-box', /\bopen[\s-]?box\b|\bunboxed\b/i],
+  ['refurbished', /\brefurbished\b|\brefurb\b|\bcertified\s+pre[\s-]?owned\b/i],
+  [
+    'used',
+    /\bpre[\s-]?owned\b|\bsecond[\s-]?hand\b|\(used\)|^used\b|\bused\s*[-–:]\s*(like new|very good|good|acceptable)\b/i,
+  ],
+];
+
+// URL paths: /renewed/, -refurbished-, /open-box/, /used/
+const CONDITION_URL: Array<[ProductCondition, RegExp]> = [
+  ['renewed', /[/_-]renewed([/_?-]|$)/i],
+  ['open-box', /[/_-]open-?box([/_?-]|$)/i],
+  ['refurbished', /[/_-]refurbished([/_?-]|$)/i],
+  ['used', /[/_-](used|pre-?owned)([/_?-]|$)/i],
+];
+
+// schema.org OfferItemCondition and OpenGraph product:condition values
+const SCHEMA_CONDITIONS: Record<string, ProductCondition> = {
+  new: 'new',
+  refurbished: 'refurbished',
+  used: 'used',
+  newcondition: 'new',
+  refurbishedcondition: 'refurbished',
+  usedcondition: 'used',
+  damagedcondition: 'used',
+};
+
+export const CONDITION_LABELS: Record<ProductCondition, string> = {
+  new: 'New',
+  renewed: 'Renewed',
+  refurbished: 'Refurbished',
+  used: 'Used',
+  'open-box': 'Open box',
+};
+
+/**
+ * Classify free text (a title or badge) by the first condition it names
+ */
+export function classifyCondition(text: string): ProductCondition | undefined {
+  return CONDITION_TEXT.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/**
+ * Condition of a listing from its badges, title, URL and structured data.
+ * Anything that names a non-new condition wins over a structured "new",
+ * which some sites emit for every listing.
+ */
+export function extractCondition(
+  root: ParentNode,
+  selectors: string[] | undefined,
+  title: string,
+  url: string,
+  structured?: ProductCondition
+): ProductCondition {
+  // Badges only appear on non-new listings, so they aren't traced for selector health
+  const badges = selectors ? queryAll(root, selectors).map((el) => el.textContent || '') : [];
+
+  for (const text of [...badges, title]) {
+    const condition = classifyCondition(text);
+    if (condition) return condition;
+  }
+
+  const fromUrl = CONDITION_URL.find(([, pattern]) => pattern.test(safePathname(url)))?.[0];
+  return fromUrl || structured || 'new';
+}
+
+/**
+ * Map a schema.org itemCondition ("https://schema.org/RefurbishedCondition")
+ * or OpenGraph condition ("refurbished")
+ */
+export function parseSchemaCondition(value?: string): ProductCondition | undefined {
+  if (!value) return undefined;
+  const key = value.toLowerCase().replace(/^https?:\/\/schema\.org\//, '');
+  return SCHEMA_CONDITIONS[key];
+}
+
+/**
+ * Whether two listings are in the same condition. Amazon Renewed is Amazon's
+ * refurbished programme, so the two are interchangeable.
+ */
+export function conditionsMatch(a?: ProductCondition, b?: ProductCondition): boolean {
+  const normalize = (condition?: ProductCondition) =>
+    condition === 'renewed' ? 'refurbished' : condition || 'new';
+  return normalize(a) === normalize(b);
+}
+
+function safePathname(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,63 @@
+import { Offer, Product } from '@/types';
+import { getRegion, HOME_CURRENCY } from '@/config/regions';
+import { formatPrice, roundPrice } from './product';
+
+/**
+ * Currency Conversion
+ * Listings from storefronts in other countries are converted into the home
+ * currency with the user's own exchange-rate table before they are compared.
+ */
+
+const HOME_FRACTION_DIGITS = getRegion().fractionDigits;
+
+/**
+ * Home-currency units per unit of `currency`, or null when no rate is set
+ */
+export function getExchangeRate(currency: string, rates: Record<string, number>): number | null {
+  if (currency === HOME_CURRENCY) return 1;
+  const rate = rates[currency];
+  return rate > 0 ? rate : null;
+}
+
+/**
+ * Copy of a product with every amount in the home currency, remembering the
+ * original price under `converted`. Returns null when no rate is set.
+ */
+export function convertProduct<T extends Product>(
+  product: T,
+  rates: Record<string, number>
+): T | null {
+  const currency = product.currency || HOME_CURRENCY;
+  if (currency === HOME_CURRENCY) return product;
+
+  const rate = getExchangeRate(currency, rates);
+  if (rate === null) return null;
+
+  const convert = (amount: number) => roundPrice(amount * rate, HOME_FRACTION_DIGITS);
+  const convertOptional = (amount?: number) => (amount === undefined ? undefined : convert(amount));
+  const numericPrice = convert(product.numericPrice);
+
+  return {
+    ...product,
+    price: formatPrice(numericPrice),
+    numericPrice,
+    salePrice: convertOptional(product.salePrice),
+    mrp: convertOptional(product.mrp),
+    delivery: product.delivery && {
+      ...product.delivery,
+      fee: convertOptional(product.delivery.fee),
+    },
+    offers: product.offers?.map((offer) => convertOffer(offer, convertOptional)),
+    currency: HOME_CURRENCY,
+    converted: { currency, price: product.price, rate },
+  };
+}
+
+function convertOffer(offer: Offer, convert: (amount?: number) => number | undefined): Offer {
+  return {
+    ...offer,
+    value: offer.discountType === 'flat' ? convert(offer.value) || 0 : offer.value,
+    maxDiscount: convert(offer.maxDiscount),
+    minSpend: convert(offer.minSpend),
+  };
+}
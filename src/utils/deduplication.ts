@@ -1,4 +1,6 @@
-import { Product } from '@/types';
+import { MatchResult, Product } from '@/types';
+import { getPackCount } from './quantity';
+import logger from './logger';
 
 /**
  * Deduplicate products before matching
@@ -79,8 +81,11 @@ function normalizeProductKey(product: Product): string {
   key = key.replace(/\b(xs|s|m|l|xl|xxl|xxxl)\b/gi, '');
   key = key.replace(/\b\d+(\.\d+)?\s*(gb|tb|mb|kg|g|ml|l|inch|cm|mm)\b/gi, '');
 
+  // Multipacks are keyed by their count below, not merged with single units
+  key = key.replace(/\b(pack|set|combo|box|case)\s+of\s+\d+\b|\b\d+[\s-]*(pack|pk)\b/gi, '');
+
   // Remove variant keywords
-  const variantWords = ['variant', 'color', 'colour', 'size', 'pack of', 'combo'];
+  const variantWords = ['variant', 'color', 'colour', 'size'];
   variantWords.forEach(word => {
     key = key.replace(new RegExp(`\\b${word}\\b`, 'gi'), '');
   });
@@ -90,6 +95,65 @@ function normalizeProductKey(product: Product): string {
 
   // Add brand for better grouping
   const brand = product.brand || '';
-  
-  return `${brand.toLowerCase()}:${key}`;
+
+  // Different pack sizes are different products (180ml vs 340ml)
+  const quantity = product.netQuantity
+    ? `:${product.netQuantity.value}${product.netQuantity.unit}`
+    : '';
+  const pack = `:x${getPackCount(product)}`;
+  // A cheaper renewed listing must not stand in for the new one
+  const condition = `:${product.condition || 'new'}`;
+
+  return `${brand.toLowerCase()}:${key}${quantity}${pack}${condition}`;
+}
+
+/**
+ * Deduplicate color variants - keep only cheapest per site
+ * Example: "iPhone 15 Black" and "iPhone 15 White" from same site → keep cheapest
+ */
+export function deduplicateColorVariants(matches: MatchResult[]): MatchResult[] {
+  const colorKeywords = [
+    'black', 'white', 'blue', 'red', 'green', 'yellow', 'pink', 'purple',
+    'grey', 'gray', 'silver', 'gold', 'rose', 'midnight', 'starlight', 
+    'coral', 'velvet', 'ocean', 'space', 'titanium', 'natural', 'pro'
+  ];
+
+  // Group by site and base product (title without color)
+  const groups = new Map<string, MatchResult[]>();
+
+  matches.forEach(match => {
+    // Remove color keywords from title to create base key
+    let baseTitle = match.title.toLowerCase();
+    colorKeywords.forEach(color => {
+      baseTitle = baseTitle.replace(new RegExp(`\\b${color}\\b`, 'gi'), '').trim();
+    });
+    
+    // Remove extra spaces
+    baseTitle = baseTitle.replace(/\s+/g, ' ').trim();
+    
+    // Create unique key: site + brand + base title
+    const key = `${match.site}|${match.brand}|${baseTitle}`;
+    
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(match);
+  });
+
+  // Keep only cheapest from each group
+  const deduplicated: MatchResult[] = [];
+  groups.forEach((variants, key) => {
+    if (variants.length === 1) {
+      deduplicated.push(variants[0]);
+    } else {
+      // Multiple variants found - keep cheapest
+      const cheapest = variants.reduce((min, curr) => 
+        curr.numericPrice < min.numericPrice ? curr : min
+      );
+      logger.info(`Dedup: ${variants.length} color variants for "${key.split('|')[2]}" on ${variants[0].site} → keeping cheapest at ₹${cheapest.numericPrice}`);
+      deduplicated.push(cheapest);
+    }
+  });
+
+  return deduplicated;
 }
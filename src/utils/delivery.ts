@@ -0,0 +1,132 @@
+import { DeliveryInfo, Product, RegionConfig, SelectorTrace } from '@/types';
+import { getRegion } from '@/config/regions';
+import { queryFirst } from './dom';
+import { currencyAmountPattern, parseCurrencyAmount } from './product';
+
+/**
+ * Delivery Extraction
+ * Reads delivery charges and the promised delivery date so results can be
+ * compared on landed price (price + delivery) instead of list price alone.
+ */
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FREE_PATTERN = /free\s+(delivery|shipping)|delivery\s*:?\s*free/i;
+const DATE_PATTERN =
+  /(?:(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*,?\s*)?(\d{1,2})(?:st|nd|rd|th)?\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*|(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\s+(\d{1,2})\b/i;
+const RELATIVE_PATTERN =
+  /\b(?:in|within)\s+(\d{1,2})(?:\s*-\s*(\d{1,2}))?\s+(?:business\s+)?days?\b/i;
+
+/**
+ * Extract delivery info from the first delivery selector that has text
+ */
+export function extractDelivery(
+  root: ParentNode,
+  selectors: string[] | undefined,
+  trace?: SelectorTrace,
+  now: Date = new Date(),
+  region: RegionConfig = getRegion()
+): DeliveryInfo | undefined {
+  if (!selectors) return undefined;
+
+  const match = queryFirst(
+    root,
+    selectors,
+    (element) => !!element.textContent?.trim(),
+    trace?.field('delivery')
+  );
+  return match ? parseDelivery(match.element.textContent || '', now, region) : undefined;
+}
+
+/**
+ * Parse delivery fee and ETA from free text, e.g.
+ * "FREE delivery Wed, 22 Oct", "₹40 delivery by 25 Oct", "Delivery in 5-7 days".
+ * Fees are read in the region's currency.
+ */
+export function parseDelivery(
+  text: string,
+  now: Date = new Date(),
+  region: RegionConfig = getRegion()
+): DeliveryInfo | undefined {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) return undefined;
+
+  const info: DeliveryInfo = {};
+
+  if (FREE_PATTERN.test(normalized)) {
+    info.fee = 0;
+  } else {
+    for (const pattern of feePatterns(region)) {
+      const fee = parseCurrencyAmount(normalized.match(pattern), region);
+      if (fee !== undefined) {
+        info.fee = fee;
+        break;
+      }
+    }
+  }
+
+  const eta = parseEta(normalized, now);
+  if (eta) {
+    info.etaDays = eta.days;
+    info.etaText = eta.text;
+  }
+
+  return info.fee !== undefined || info.etaDays !== undefined ? info : undefined;
+}
+
+/**
+ * Fee patterns in the region's currency: "Delivery charge ₹40", "$5.99 shipping"
+ */
+function feePatterns(region: RegionConfig): RegExp[] {
+  const amount = currencyAmountPattern(region);
+  return [
+    new RegExp(
+      String.raw`(?:delivery|shipping)\s*(?:charges?|fee)?\s*:?\s*(?:of\s*)?${amount}`,
+      'i'
+    ),
+    new RegExp(String.raw`${amount}\s*(?:delivery|shipping)`, 'i'),
+  ];
+}
+
+function parseEta(text: string, now: Date): { days: number; text: string } | null {
+  if (/\btoday\b/i.test(text)) return { days: 0, text: 'Today' };
+  if (/\btomorrow\b/i.test(text)) return { days: 1, text: 'Tomorrow' };
+
+  const relative = text.match(RELATIVE_PATTERN);
+  if (relative) {
+    const days = parseInt(relative[2] || relative[1], 10);
+    return { days, text: relative[0].trim() };
+  }
+
+  const date = text.match(DATE_PATTERN);
+  if (date) {
+    const day = parseInt(date[1] || date[4], 10);
+    const month = MONTHS.indexOf((date[2] || date[3]).toLowerCase());
+    const days = daysUntil(day, month, now);
+    return days === null ? null : { days, text: date[0].trim() };
+  }
+
+  return null;
+}
+
+/**
+ * Days from `now` to the next occurrence of day/month (dates in the past roll to next year)
+ */
+function daysUntil(day: number, month: number, now: Date): number | null {
+  if (month < 0 || day < 1 || day > 31) return null;
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  let target = new Date(now.getFullYear(), month, day);
+  if (target.getTime() < today.getTime()) {
+    target = new Date(now.getFullYear() + 1, month, day);
+  }
+  return Math.round((target.getTime() - today.getTime()) / DAY_MS);
+}
+
+/**
+ * Price the buyer actually pays: selling price plus any delivery fee
+ */
+export function getLandedPrice(product: Pick<Product, 'numericPrice' | 'delivery'>): number {
+  return product.numericPrice + (product.delivery?.fee ?? 0);
+}
@@ -0,0 +1,139 @@
+/**
+ * DOM Query Utilities
+ * Selector-list helpers shared by site adapters. Every helper takes an explicit
+ * root so extraction works on the live page and on parsed HTML documents alike.
+ */
+
+/**
+ * Receives the index of the selector that matched, or -1 when none did
+ */
+export type SelectorTracer = (index: number) => void;
+
+export interface SelectorMatch {
+  element: Element;
+  index: number;
+}
+
+/**
+ * Find the first selector (in priority order) that matches an accepted element
+ */
+export function queryFirst(
+  root: ParentNode,
+  selectors: string[],
+  accept: (element: Element) => boolean = () => true,
+  trace?: SelectorTracer
+): SelectorMatch | null {
+  for (let index = 0; index < selectors.length; index++) {
+    const element = root.querySelector(selectors[index]);
+    if (element && accept(element)) {
+      trace?.(index);
+      return { element, index };
+    }
+  }
+  trace?.(-1);
+  return null;
+}
+
+/**
+ * Find all elements for the first selector (in priority order) that matches any
+ */
+export function queryAll(
+  root: ParentNode,
+  selectors: string[],
+  trace?: SelectorTracer
+): Element[] {
+  for (let index = 0; index < selectors.length; index++) {
+    const elements = Array.from(root.querySelectorAll(selectors[index]));
+    if (elements.length > 0) {
+      trace?.(index);
+      return elements;
+    }
+  }
+  trace?.(-1);
+  return [];
+}
+
+/**
+ * Get trimmed text content of the first selector that matches
+ */
+export function getElementText(
+  root: ParentNode,
+  selectors: string[],
+  trace?: SelectorTracer
+): string {
+  const match = queryFirst(root, selectors, (element) => !!element.textContent?.trim(), trace);
+  return match?.element.textContent?.trim() || '';
+}
+
+/**
+ * Get image source of the first selector that matches (supports lazy-loaded images)
+ */
+export function getImageSrc(
+  root: ParentNode,
+  selectors: string[],
+  baseUrl?: string,
+  trace?: SelectorTracer
+): string {
+  // Wrapper elements (e.g. ".product-image" on a div) don't count as a match
+  const match = queryFirst(root, selectors, (element) => !!readImageSrc(element), trace);
+  return match ? resolveUrl(readImageSrc(match.element), baseUrl) : '';
+}
+
+/**
+ * Read the image URL from an element, preferring real src over lazy-load attributes
+ */
+export function readImageSrc(element: Element): string {
+  return (
+    element.getAttribute('src') ||
+    element.getAttribute('data-src') ||
+    element.getAttribute('data-lazy-src') ||
+    ''
+  );
+}
+
+/**
+ * Get attribute value from the first selector that matches
+ */
+export function getAttributeValue(
+  root: ParentNode,
+  selectors: string[],
+  attribute: string
+): string {
+  for (const selector of selectors) {
+    const element = root.querySelector(selector);
+    if (element) {
+      return element.getAttribute(attribute) || '';
+    }
+  }
+  return '';
+}
+
+/**
+ * Get attribute value from within a container, falling back to the container itself
+ */
+export function getAttributeValueFrom(
+  container: Element,
+  selectors: string[],
+  attribute: string
+): string {
+  for (const selector of selectors) {
+    const element = container.querySelector(selector);
+    if (element) {
+      return element.getAttribute(attribute) || '';
+    }
+  }
+  return container.getAttribute(attribute) || '';
+}
+
+/**
+ * Resolve a possibly relative URL against the page URL
+ */
+export function resolveUrl(href: string, baseUrl?: string): string {
+  if (!href) return '';
+
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return href;
+  }
+}
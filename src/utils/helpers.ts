@@ -51,26 +51,83 @@ export async function withRetry<T>(
 }
 
 /**
- * Timeout wrapper
+ * Timeout wrapper; also rejects with CANCELLED when `signal` aborts
  */
 export async function withTimeout<T>(
   promise: Promise<T>,
   timeoutMs: number,
-  errorMessage: string = 'Operation timed out'
+  errorMessage: string = 'Operation timed out',
+  signal?: AbortSignal
 ): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new FineDealError(errorMessage, ErrorCode.TIMEOUT)), timeoutMs)
-    ),
-  ]);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopListening: (() => void) | undefined;
+  const deadline = new Promise<T>((_, reject) => {
+    timer = setTimeout(() => reject(new FineDealError(errorMessage, ErrorCode.TIMEOUT)), timeoutMs);
+    stopListening = onAbort(signal, reject);
+  });
+
+  try {
+    return await Promise.race([promise, deadline]);
+  } finally {
+    clearTimeout(timer);
+    stopListening?.();
+  }
 }
 
 /**
- * Sleep utility
+ * Sleep utility; rejects with CANCELLED when `signal` aborts
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      stopListening();
+      resolve();
+    }, ms);
+    const stopListening = onAbort(signal, (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Throw CANCELLED if `signal` has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw cancelledError();
+}
+
+export function isCancelled(error: unknown): boolean {
+  return error instanceof FineDealError && error.code === ErrorCode.CANCELLED;
+}
+
+export function isRateLimited(error: unknown): error is FineDealError {
+  return error instanceof FineDealError && error.code === ErrorCode.RATE_LIMIT;
+}
+
+/**
+ * Reject with CANCELLED when `signal` aborts; returns a function that stops
+ * listening, for the caller to run once it settles
+ */
+function onAbort(
+  signal: AbortSignal | undefined,
+  reject: (error: FineDealError) => void
+): () => void {
+  if (!signal) return () => undefined;
+  if (signal.aborted) {
+    reject(cancelledError());
+    return () => undefined;
+  }
+  const listener = () => reject(cancelledError());
+  signal.addEventListener('abort', listener, { once: true });
+  return () => signal.removeEventListener('abort', listener);
+}
+
+/**
+ * Error for an operation stopped by its AbortSignal
+ */
+export function cancelledError(): FineDealError {
+  return new FineDealError('Comparison cancelled', ErrorCode.CANCELLED);
 }
 
 /**
@@ -84,6 +141,21 @@ export function safeJsonParse<T>(json: string, fallback: T): T {
   }
 }
 
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text for use in HTML markup or a quoted attribute
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
 /**
  * Debounce function
  */
@@ -0,0 +1,193 @@
+import { Offer, Product, RegionConfig, SelectorTrace } from '@/types';
+import { getRegion } from '@/config/regions';
+import { queryAll } from './dom';
+import { getLandedPrice } from './delivery';
+import { currencyAmountPattern, parseCurrencyAmount } from './product';
+
+/**
+ * Offer Extraction
+ * Bank card offers and coupons often change the real price more than the
+ * difference between sites, so they are parsed into structured offers and
+ * applied for the cards the user owns.
+ */
+
+// Issuing banks, matched against offer text
+const BANK_PATTERNS: Record<string, RegExp> = {
+  hdfc: /\bhdfc\b/i,
+  icici: /\bicici\b/i,
+  sbi: /\bsbi\b|state bank of india/i,
+  axis: /\baxis\b/i,
+  kotak: /\bkotak\b/i,
+  idfc: /\bidfc\b/i,
+  hsbc: /\bhsbc\b/i,
+  bob: /\bbob\s*card\b|\bbobcard\b|bank of baroda/i,
+  indusind: /\bindusind\b/i,
+  yes: /\byes bank\b/i,
+  rbl: /\brbl\b/i,
+  au: /\bau (?:small finance )?bank\b/i,
+  amex: /american express|\bamex\b/i,
+  onecard: /\bone\s*card\b/i,
+};
+
+export const BANK_LABELS: Record<string, string> = {
+  hdfc: 'HDFC Bank',
+  icici: 'ICICI Bank',
+  sbi: 'SBI',
+  axis: 'Axis Bank',
+  kotak: 'Kotak',
+  idfc: 'IDFC FIRST',
+  hsbc: 'HSBC',
+  bob: 'Bank of Baroda',
+  indusind: 'IndusInd',
+  yes: 'YES Bank',
+  rbl: 'RBL Bank',
+  au: 'AU Bank',
+  amex: 'American Express',
+  onecard: 'OneCard',
+};
+
+const CAP_PREFIX = String.raw`up\s*to\s*`;
+const MIN_SPEND_PREFIX = String.raw`(?:\bmin(?:imum)?\.?[a-z\s]*?|(?:orders?|purchases?|spends?|transactions?)\s+(?:of|above|over)\s*)`;
+const PERCENT_PATTERN = /(\d+(?:\.\d+)?)\s*%/;
+const COUPON_PATTERN = /coupon|promo\s*code|use\s+code/i;
+// EMI offers save interest, not price; "inclusive of coupon" is already in the price
+const IGNORED_PATTERN = /no[\s-]cost emi|emi interest|inclusive of/i;
+
+interface AmountPatterns {
+  cap: RegExp; // "up to ₹1,500"
+  minSpend: RegExp; // "on orders of ₹5,000", "min. purchase $50"
+  flat: RegExp;
+}
+
+export interface AppliedOffers {
+  coupon?: Offer;
+  bank?: Offer;
+  savings: number;
+}
+
+/**
+ * Extract offers from every element of the first offer selector that matches
+ */
+export function extractOffers(
+  root: ParentNode,
+  selectors: string[] | undefined,
+  trace?: SelectorTrace,
+  region: RegionConfig = getRegion()
+): Offer[] | undefined {
+  if (!selectors) return undefined;
+
+  const offers: Offer[] = [];
+  for (const element of queryAll(root, selectors, trace?.field('offers'))) {
+    const offer = parseOffer(element.textContent || '', region);
+    if (offer && !offers.some((existing) => existing.text === offer.text)) {
+      offers.push(offer);
+    }
+  }
+  return offers.length > 0 ? offers : undefined;
+}
+
+/**
+ * Parse one offer line, e.g. "10% instant discount with HDFC cards up to ₹1,500
+ * on orders of ₹5,000" or "Apply ₹100 coupon", with amounts in the region's
+ * currency. Returns null for anything that is not a bank offer or coupon with
+ * a usable discount.
+ */
+export function parseOffer(text: string, region: RegionConfig = getRegion()): Offer | null {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized || IGNORED_PATTERN.test(normalized)) return null;
+
+  const bank = Object.keys(BANK_PATTERNS).find((id) => BANK_PATTERNS[id].test(normalized));
+  if (!bank && !COUPON_PATTERN.test(normalized)) return null;
+
+  const patterns = amountPatterns(region);
+  const maxDiscount = readAmount(normalized.match(patterns.cap), region);
+  const minSpend = readAmount(normalized.match(patterns.minSpend), region);
+
+  // Whatever amount is left once cap and minimum spend are removed is the discount itself;
+  // "up to ₹1,500 off" with no rate counts as the cap
+  const remainder = normalized.replace(patterns.cap, '').replace(patterns.minSpend, '');
+  const percent = remainder.match(PERCENT_PATTERN);
+  const flat = readAmount(remainder.match(patterns.flat), region) ?? maxDiscount;
+
+  let discount: Pick<Offer, 'discountType' | 'value' | 'maxDiscount'>;
+  if (percent) {
+    discount = { discountType: 'percent', value: parseFloat(percent[1]), maxDiscount };
+  } else if (flat) {
+    discount = { discountType: 'flat', value: flat };
+  } else {
+    return null;
+  }
+
+  return {
+    kind: bank ? 'bank' : 'coupon',
+    bank,
+    ...discount,
+    minSpend,
+    text: normalized,
+  };
+}
+
+function readAmount(match: RegExpMatchArray | null, region: RegionConfig): number | undefined {
+  const value = parseCurrencyAmount(match, region);
+  return value && value > 0 ? value : undefined;
+}
+
+function amountPatterns(region: RegionConfig): AmountPatterns {
+  const amount = currencyAmountPattern(region);
+  return {
+    cap: new RegExp(CAP_PREFIX + amount, 'i'),
+    minSpend: new RegExp(MIN_SPEND_PREFIX + amount, 'i'),
+    flat: new RegExp(amount, 'i'),
+  };
+}
+
+/**
+ * Discount an offer gives on a given price (0 below the minimum spend)
+ */
+export function getOfferDiscount(offer: Offer, price: number): number {
+  if (offer.minSpend && price < offer.minSpend) return 0;
+
+  const discount =
+    offer.discountType === 'percent' ? Math.round((price * offer.value) / 100) : offer.value;
+  return Math.min(discount, offer.maxDiscount ?? discount, price);
+}
+
+/**
+ * Best coupon plus the best bank offer for a card the user owns.
+ * Sites let a coupon stack with one bank offer, which applies to the couponed price.
+ */
+export function applyOffers(
+  product: Pick<Product, 'numericPrice' | 'offers'>,
+  ownedCards: string[]
+): AppliedOffers {
+  const best = (offers: Offer[], price: number): Offer | undefined =>
+    offers
+      .filter((offer) => getOfferDiscount(offer, price) > 0)
+      .sort((a, b) => getOfferDiscount(b, price) - getOfferDiscount(a, price))[0];
+
+  const offers = product.offers || [];
+  const coupon = best(
+    offers.filter((offer) => offer.kind === 'coupon'),
+    product.numericPrice
+  );
+  const couponSavings = coupon ? getOfferDiscount(coupon, product.numericPrice) : 0;
+
+  const afterCoupon = product.numericPrice - couponSavings;
+  const bank = best(
+    offers.filter((offer) => offer.kind === 'bank' && ownedCards.includes(offer.bank || '')),
+    afterCoupon
+  );
+  const bankSavings = bank ? getOfferDiscount(bank, afterCoupon) : 0;
+
+  return { coupon, bank, savings: couponSavings + bankSavings };
+}
+
+/**
+ * What the user actually pays: landed price minus coupons and owned-card offers
+ */
+export function getEffectivePrice(
+  product: Pick<Product, 'numericPrice' | 'offers' | 'delivery'>,
+  ownedCards: string[]
+): number {
+  return getLandedPrice(product) - applyOffers(product, ownedCards).savings;
+}
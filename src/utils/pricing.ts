@@ -0,0 +1,89 @@
+import { parsePrice } from './product';
+import { queryFirst, SelectorTracer } from './dom';
+
+/**
+ * Pricing Utilities
+ * Separates the selling price from the struck-through MRP. Retailers render
+ * both with similar markup, so a generic price selector can land on the MRP.
+ */
+
+export interface PricingInfo {
+  salePrice: number;
+  mrp?: number;
+  discountPercent?: number;
+}
+
+// Class names retailers use for the crossed-out list price
+const STRIKE_CLASS =
+  /strike|line-through|cancel|mrp|old-?price|price-?old|original|orginal|list-?price|a-text-price|prod-cp/i;
+const STRIKE_ANCESTOR_DEPTH = 2;
+
+/**
+ * Whether an element shows a struck-through (MRP / list) price
+ */
+export function isStrikethrough(element: Element): boolean {
+  if (element.closest('del, s, strike')) return true;
+  if (/line-through/i.test(element.getAttribute('style') || '')) return true;
+
+  let current: Element | null = element;
+  for (let depth = 0; current && depth <= STRIKE_ANCESTOR_DEPTH; depth++) {
+    if (STRIKE_CLASS.test(current.getAttribute('class') || '')) return true;
+    current = current.parentElement;
+  }
+  return false;
+}
+
+/**
+ * First price element (in selector priority order) that isn't a struck-through MRP
+ */
+export function findSalePriceElement(
+  root: ParentNode,
+  selectors: string[],
+  trace?: SelectorTracer
+): Element | null {
+  const match = queryFirst(
+    root,
+    selectors,
+    (element) => !!element.textContent?.trim() && !isStrikethrough(element),
+    trace
+  );
+  return match?.element || null;
+}
+
+/**
+ * First MRP element whose text contains a price
+ */
+export function findMrpElement(
+  root: ParentNode,
+  selectors: string[] | undefined,
+  trace?: SelectorTracer
+): Element | null {
+  if (!selectors) return null;
+
+  const match = queryFirst(
+    root,
+    selectors,
+    (element) => parsePrice(element.textContent || '') > 0,
+    trace
+  );
+  return match?.element || null;
+}
+
+/**
+ * Reconcile selling price and MRP. If the MRP selector matched a lower number
+ * than the price, the two were grabbed the wrong way round and are swapped.
+ */
+export function resolvePricing(price: number, mrp?: number): PricingInfo {
+  if (!mrp || mrp <= 0 || price <= 0 || mrp === price) {
+    return { salePrice: price };
+  }
+
+  const salePrice = Math.min(price, mrp);
+  const listPrice = Math.max(price, mrp);
+
+  return {
+    salePrice,
+    mrp: listPrice,
+    discountPercent: Math.round(((listPrice - salePrice) / listPrice) * 100),
+  };
+}
@@ -9,24 +9,41 @@ export interface ProductNumberInfo {
   partNumber: string; // Part number (e.g., "MK2L3HN/A")
   sku: string; // SKU code
   asin: string; // Amazon ASIN
+  gtin: string; // Check-digit validated GTIN/EAN/UPC, as 13 digits (8 for EAN-8)
+  isbn: string; // Check-digit validated ISBN, as ISBN-13
   confidence: number; // Confidence score (0-100)
   source: 'title' | 'attribute' | 'url'; // Where it was found
 }
 
+// Labeled barcodes in free text, e.g. "ISBN-10: 0-306-40615-2", "EAN 8901526308545"
+const LABELED_IDENTIFIER_PATTERN = /\b(?:isbn(?:-1[03])?|ean(?:-1[34])?|upc|gtin(?:-\d{1,2})?)\s*[:#]?\s*([\dX][\d\s-]{6,18}[\dX])/gi;
+
 /**
- * Extract all product numbers/identifiers from title
+ * Extract all product numbers/identifiers from title.
+ * `identifiers` are raw barcode values from structured data or spec tables.
  */
-export function extractProductNumbers(title: string, productId?: string, url?: string): ProductNumberInfo {
+export function extractProductNumbers(title: string, productId?: string, url?: string, identifiers: Array<string | undefined> = []): ProductNumberInfo {
   const result: ProductNumberInfo = {
     productNumber: '',
     modelNumber: '',
     partNumber: '',
     sku: '',
     asin: '',
+    gtin: '',
+    isbn: '',
     confidence: 0,
     source: 'title'
   };
 
+  // Strategy 0: Barcodes (definitive identity, kept alongside any model number)
+  const labeled = Array.from(title.matchAll(LABELED_IDENTIFIER_PATTERN), (match) => match[1]);
+  for (const value of [...identifiers, ...labeled]) {
+    const parsed = value ? parseIdentifier(value) : null;
+    if (!parsed) continue;
+    result.gtin = result.gtin || parsed.gtin;
+    result.isbn = result.isbn || parsed.isbn;
+  }
+
   // Strategy 1: Extract ASIN from productId or URL (HIGHEST CONFIDENCE)
   if (productId && /^[A-Z0-9]{10}$/.test(productId)) {
     result.asin = productId;
@@ -136,10 +153,89 @@ export function extractProductNumbers(title: string, productId?: string, url?: s
   return result;
 }
 
+/**
+ * Validate and normalize a barcode or ISBN. ISBN-10 is converted to ISBN-13,
+ * UPC-A/GTIN-14 are brought to 13 digits so the same item compares equal.
+ */
+export function parseIdentifier(value: string): { gtin: string; isbn: string } | null {
+  const compact = value.replace(/[\s-]/g, '').toUpperCase();
+
+  if (/^\d{9}[\dX]$/.test(compact)) {
+    if (!isValidIsbn10(compact)) return null;
+    const isbn = isbn10To13(compact);
+    return { gtin: isbn, isbn };
+  }
+
+  if (!/^(\d{8}|\d{12,14})$/.test(compact) || !isValidGtin(compact)) return null;
+
+  if (compact.length === 14 && compact[0] !== '0') return null; // Case-pack GTIN, not the item itself
+  const gtin = compact.length === 8 ? compact : compact.padStart(14, '0').slice(1);
+
+  return { gtin, isbn: /^97[89]/.test(gtin) ? gtin : '' };
+}
+
+/**
+ * GS1 mod-10 check digit: weights 3,1,3,... from the right, excluding the check digit
+ */
+export function isValidGtin(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = parseInt(body[body.length - 1 - i], 10);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10 === parseInt(digits[digits.length - 1], 10);
+}
+
+/**
+ * ISBN-10 mod-11 check digit (X = 10)
+ */
+export function isValidIsbn10(isbn: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const digit = isbn[i] === 'X' ? 10 : parseInt(isbn[i], 10);
+    if (isNaN(digit) || (digit === 10 && i !== 9)) return false;
+    sum += digit * (10 - i);
+  }
+  return sum % 11 === 0;
+}
+
+function isbn10To13(isbn10: string): string {
+  const body = `978${isbn10.slice(0, 9)}`;
+  for (let check = 0; check <= 9; check++) {
+    if (isValidGtin(`${body}${check}`)) return `${body}${check}`;
+  }
+  return '';
+}
+
+/**
+ * Barcode values from spec table rows (EAN, UPC, GTIN, ISBN keys)
+ */
+export function identifiersFromSpecs(specs?: Record<string, string>): string[] {
+  if (!specs) return [];
+  return Object.entries(specs)
+    .filter(([key]) => /\b(ean|upc|gtin|isbn|barcode)\b/i.test(key))
+    .map(([, value]) => value);
+}
+
+/**
+ * Same validated barcode or ISBN: a definitive identity match
+ */
+export function identifiersMatch(
+  a: { gtin?: string; isbn?: string },
+  b: { gtin?: string; isbn?: string }
+): boolean {
+  return !!((a.gtin && a.gtin === b.gtin) || (a.isbn && a.isbn === b.isbn));
+}
+
 /**
  * Compare two product numbers for matching
  */
 export function productNumbersMatch(num1: ProductNumberInfo, num2: ProductNumberInfo): boolean {
+  if (identifiersMatch(num1, num2)) return true;
+
   if (!num1.productNumber || !num2.productNumber) {
     return false;
   }
@@ -1,21 +1,73 @@
+import { ProductAttributes, RegionConfig } from '@/types';
+import { getRegion, getRegionForCurrency, HOME_CURRENCY } from '@/config/regions';
+
 /**
- * Parse price string to number
+ * Parse price string to number, using the region's decimal separator
+ * ("1,299.00" in India and the US, "1.299,00" in Germany)
  */
-export function parsePrice(priceText: string): number {
+export function parsePrice(priceText: string, region: RegionConfig = getRegion()): number {
   if (!priceText) return 0;
   
-  // Remove all non-numeric characters except decimal point
-  const cleaned = priceText.replace(/[^\d.]/g, '');
-  const parsed = parseFloat(cleaned);
+  // Take the first number; the "." in "Rs." isn't followed by a digit
+  const match = priceText.match(/\d+(?:[.,]\d+)*/);
+  if (!match) return 0;
+
+  const groupSeparator = region.decimalSeparator === '.' ? ',' : '.';
+  const parsed = parseFloat(
+    match[0].split(groupSeparator).join('').replace(region.decimalSeparator, '.')
+  );
   
-  return isNaN(parsed) ? 0 : Math.round(parsed);
+  return isNaN(parsed) ? 0 : roundPrice(parsed, region.fractionDigits);
+}
+
+/**
+ * Regex source for an amount in the region's currency, with the symbol before
+ * or after it: "₹1,299", "Rs. 40", "$5.99", "4,99 €". Read matches with
+ * parseCurrencyAmount.
+ */
+export function currencyAmountPattern(region: RegionConfig = getRegion()): string {
+  const symbols = region.currencySymbols.map((symbol) => symbol.replace(/[.$]/g, '\\$&')).join('|');
+  const amount = String.raw`(\d+(?:[.,]\d+)*)`;
+  // A letter before "Rs"/"EUR" means it ends another word ("orders 5,000")
+  return String.raw`(?:(?<![a-z])(?:${symbols})\s*${amount}|${amount}\s*(?:${symbols})(?![a-z]))`;
+}
+
+/**
+ * Amount captured by a currencyAmountPattern, or undefined when there is none
+ */
+export function parseCurrencyAmount(
+  match: RegExpMatchArray | null,
+  region: RegionConfig = getRegion()
+): number | undefined {
+  const amount = match?.slice(1).find((group) => group !== undefined);
+  return amount ? parsePrice(amount, region) : undefined;
 }
 
 /**
- * Format price to display string
+ * Round to the currency's minor units
  */
-export function formatPrice(price: number, currency: string = '₹'): string {
-  return `${currency}${price.toLocaleString('en-IN')}`;
+export function roundPrice(price: number, fractionDigits: number): number {
+  const factor = 10 ** fractionDigits;
+  return Math.round(price * factor) / factor;
+}
+
+/**
+ * Format price to display string in a currency (ISO 4217 code)
+ */
+export function formatPrice(price: number, currency: string = HOME_CURRENCY): string {
+  const region = getRegionForCurrency(currency);
+  const fractionDigits = region ? region.fractionDigits : Number.isInteger(price) ? 0 : 2;
+  try {
+    return new Intl.NumberFormat(region?.locale || 'en-IN', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(price);
+  } catch {
+    // Not a currency code Intl knows
+    return `${currency} ${price}`;
+  }
 }
 
 /**
@@ -180,6 +232,14 @@ export function detectCategory(title: string): string {
     return 'beauty';
   }
 
+  if (/(television|\btv\b|headphone|earphone|earbuds|speaker|smartwatch|camera|refrigerator|washing machine|air conditioner|microwave|rice cooker|mixer grinder)/i.test(titleLower)) {
+    return 'electronics';
+  }
+
+  if (/\b(atta|flour|rice|dal|ghee|sugar|salt|tea|coffee|biscuits?|namkeen|masala|noodles|cooking oil|mustard oil|sunflower oil|pulses|cereal|oats|honey|ketchup|pickle|grocery)\b/i.test(titleLower)) {
+    return 'grocery';
+  }
+
   return 'general';
 }
 
@@ -187,7 +247,7 @@ export function detectCategory(title: string): string {
  * Generate multiple search queries with fallback strategies (Google Shopping style)
  * NOW WITH PRODUCT NUMBER PRIORITY!
  */
-export function generateSearchQueries(title: string, brand?: string, productNumber?: string, productId?: string, url?: string): string[] {
+export function generateSearchQueries(title: string, brand?: string, productNumber?: string, productId?: string, url?: string, attributes?: ProductAttributes): string[] {
   const queries: string[] = [];
   
   // STRATEGY 0: Pure Product Number (HIGHEST PRIORITY - NEW!)
@@ -252,8 +312,9 @@ export function generateSearchQueries(title: string, brand?: string, productNumb
     .trim();
 
   const model = extractModel(title);
-  const storage = extractStorage(title);
-  const ram = extractRAM(title);
+  // Selected variant from the page wins: titles often stay on the default swatch
+  const storage = attributes?.storage || extractStorage(title);
+  const ram = attributes?.ram || extractRAM(title);
   const detectedBrand = brand || extractBrand(title);
 
   // Strategy 1: Brand + Model + Storage (BEST - most specific)
@@ -0,0 +1,111 @@
+import { NetQuantity, Product, QuantityUnit, UnitPrice } from '@/types';
+
+/**
+ * Net Quantity
+ * Beauty, grocery and FMCG listings come in different sizes, so "180ml ₹299"
+ * and "340ml ₹499" are compared per 100 ml rather than per listing.
+ * Multipacks ("Pack of 3") are compared per item against single units.
+ */
+
+// Unit spelling -> base unit and multiplier into it
+const UNITS: Array<[RegExp, QuantityUnit, number]> = [
+  [/^(ml|millilit(re|er)s?)$/, 'ml', 1],
+  [/^(l|ltrs?|lit(re|er)s?)$/, 'ml', 1000],
+  [/^(kg|kgs|kilo(gram)?s?)$/, 'g', 1000],
+  [/^(g|gm|gms|grams?|gr)$/, 'g', 1],
+  [/^(pcs|pc|pieces?|units?|count|tablets?|capsules?|sachets?|rolls?)$/, 'count', 1],
+];
+
+const UNIT_SPELLINGS =
+  'millilit(?:re|er)s?|ml|lit(?:re|er)s?|ltrs?|l|kilo(?:gram)?s?|kgs?|grams?|gms?|gr|g|pieces?|pcs|pc|units?|count|tablets?|capsules?|sachets?|rolls?';
+
+const QUANTITY_PATTERN = new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(${UNIT_SPELLINGS})\\b`, 'i');
+
+// "Pack of 3", "Set of 4", "Combo of 2", "3-Pack", "2 x 100ml" (but not "8 x 10 inch")
+const PACK_PATTERNS = [
+  /\b(?:pack|set|combo|box|case)\s+of\s+(\d+)\b/i,
+  /\b(\d+)[\s-]*(?:pack|pk)\b/i,
+  new RegExp(`\\b(\\d+)\\s*[x×]\\s*\\d+(?:\\.\\d+)?\\s*(?:${UNIT_SPELLINGS})\\b`, 'i'),
+];
+
+// Spec rows holding the pack contents; a bare "Weight" row is the device's own weight
+const SPEC_KEY = /^(net\s+(quantity|qty|weight|wt|volume|contents?)|volume|contents?)$/i;
+
+/**
+ * Parse the first quantity in a title or spec value: "180ml", "1 L", "5 kg", "1000.0 gram"
+ */
+export function parseNetQuantity(text: string): NetQuantity | undefined {
+  const match = text.match(QUANTITY_PATTERN);
+  // "5G" is a network, not five grams
+  if (!match || match[2] === 'G') return undefined;
+
+  const spelling = match[2].toLowerCase();
+  const unit = UNITS.find(([pattern]) => pattern.test(spelling));
+  const value = parseFloat(match[1]) * (unit ? unit[2] : 1);
+  return unit && value > 0 ? { value, unit: unit[1] } : undefined;
+}
+
+/**
+ * Number of items in a multipack, 1 when the title names none
+ */
+export function parsePackCount(text: string): number {
+  for (const pattern of PACK_PATTERNS) {
+    const match = text.match(pattern);
+    const count = match ? parseInt(match[1], 10) : 0;
+    if (count >= 1 && count <= 100) return count;
+  }
+  return 1;
+}
+
+/**
+ * Quantity from spec rows first (they state the total explicitly), then the
+ * title, where "Pack of 2 ... 180ml" means two 180 ml bottles
+ */
+export function extractNetQuantity(
+  title: string,
+  specs?: Record<string, string>
+): NetQuantity | undefined {
+  const specValue = Object.entries(specs || {}).find(([key]) => SPEC_KEY.test(key.trim()))?.[1];
+  const fromSpecs = specValue && parseNetQuantity(specValue);
+  if (fromSpecs) return fromSpecs;
+
+  const perItem = parseNetQuantity(title);
+  // "Pack of 60 Tablets" already counts the items
+  if (!perItem || perItem.unit === 'count') return perItem;
+  return { value: perItem.value * parsePackCount(title), unit: perItem.unit };
+}
+
+/**
+ * Items in the listing, 1 for a single unit
+ */
+export function getPackCount(product: Pick<Product, 'packCount'>): number {
+  return product.packCount && product.packCount > 1 ? product.packCount : 1;
+}
+
+/**
+ * Listing price divided across the items of a multipack
+ */
+export function pricePerItem(product: Pick<Product, 'numericPrice' | 'packCount'>): number {
+  return product.numericPrice / getPackCount(product);
+}
+
+/**
+ * Price per 100 ml, per 100 g or per item
+ */
+export function getUnitPrice(price: number, quantity?: NetQuantity): UnitPrice | undefined {
+  if (!quantity || quantity.value <= 0 || price <= 0) return undefined;
+
+  const per = quantity.unit === 'count' ? 1 : 100;
+  return {
+    price: Math.round((price / quantity.value) * per * 100) / 100,
+    per,
+    unit: quantity.unit,
+  };
+}
+
+/**
+ * What a unit price is quoted per: "100 ml", "100 g", "item"
+ */
+export function formatUnit(unit: QuantityUnit): string {
+  return unit === 'count' ? 'item' : `100 ${unit}`;
+}
@@ -0,0 +1,77 @@
+import { Product } from '@/types';
+
+/**
+ * Ratings
+ * Star ratings and rating counts from product pages and search tiles, plus a
+ * cross-site aggregate so a 4.8 from 12 buyers doesn't outweigh a 4.2 from 40,000.
+ */
+
+export interface AggregateRating {
+  rating: number; // Weighted by rating count, out of 5
+  reviewCount: number; // Ratings across all sites
+  sites: number; // Sites that contributed
+}
+
+const COUNT_MULTIPLIERS: Record<string, number> = { k: 1e3, l: 1e5, m: 1e6 };
+
+/**
+ * Parse a star rating to a 0-5 scale.
+ * Accepts "4.3 out of 5 stars", "4.3★", "8.6/10", "4,3 von 5 Sternen".
+ */
+export function parseRating(text: string): number | undefined {
+  if (!text) return undefined;
+
+  const normalized = text.replace(/(\d),(\d)/g, '$1.$2');
+  const scaled = normalized.match(/(\d+(?:\.\d+)?)\s*(?:out\s+of|von|\/)\s*(\d+)/i);
+  const value = scaled
+    ? (parseFloat(scaled[1]) / parseInt(scaled[2], 10)) * 5
+    : parseFloat(normalized.match(/\d+(\.\d+)?/)?.[0] || '');
+
+  return value > 0 && value <= 5 ? Math.round(value * 10) / 10 : undefined;
+}
+
+/**
+ * Parse a rating count: "(12,345)", "12.3K ratings", "1,23,456 Ratings & 7,890 Reviews",
+ * "(3.512)". The first number is the rating count the average is built on.
+ */
+export function parseReviewCount(text: string): number | undefined {
+  // "." before exactly three digits groups thousands (German notation)
+  const ungrouped = text.replace(/,/g, '').replace(/(\d)\.(\d{3})(?![\dklm])/gi, '$1$2');
+  const match = ungrouped.match(/(\d+(?:\.\d+)?)([klm])?(?![a-z])/i);
+  if (!match) return undefined;
+
+  const multiplier = match[2] ? COUNT_MULTIPLIERS[match[2].toLowerCase()] : 1;
+  const count = Math.round(parseFloat(match[1]) * multiplier);
+  return count > 0 ? count : undefined;
+}
+
+/**
+ * Rating-count weighted average across sites. Per site only the listing with
+ * the most ratings counts, since variants of one product share their reviews.
+ * Listings without a rating count carry no weight and are skipped.
+ */
+export function aggregateRatings(
+  products: Array<Pick<Product, 'site' | 'rating' | 'reviewCount'>>
+): AggregateRating | null {
+  const bySite = new Map<string, { rating: number; reviewCount: number }>();
+
+  products.forEach(({ site, rating, reviewCount }) => {
+    if (rating === undefined || !reviewCount) return;
+
+    const current = bySite.get(site);
+    if (!current || reviewCount > current.reviewCount) {
+      bySite.set(site, { rating, reviewCount });
+    }
+  });
+
+  const listings = Array.from(bySite.values());
+  const reviewCount = listings.reduce((sum, listing) => sum + listing.reviewCount, 0);
+  if (reviewCount === 0) return null;
+
+  const weighted = listings.reduce((sum, listing) => sum + listing.rating * listing.reviewCount, 0);
+  return {
+    rating: Math.round((weighted / reviewCount) * 10) / 10,
+    reviewCount,
+    sites: listings.length,
+  };
+}
@@ -0,0 +1,73 @@
+import { ScrapeDepthConfig, ScrapedProduct } from '@/types';
+import { isSponsoredListing } from './sponsored';
+
+/**
+ * Search Depth Helpers
+ * Shared by the content script (scroll-to-load) and the popup (pagination)
+ * to merge result batches and decide when enough has been collected.
+ */
+
+const STRONG_OVERLAP = 0.6; // Share of query tokens a title must contain
+
+/**
+ * Append newly loaded tiles, skipping URLs already collected.
+ * Sponsored tiles don't count toward the cap.
+ */
+export function mergeSearchResults<T extends ScrapedProduct>(
+  existing: T[],
+  incoming: T[],
+  maxResults: number
+): T[] {
+  const seen = new Set(existing.map((product) => product.url));
+  const merged = [...existing];
+  let organic = countOrganic(merged);
+
+  for (const product of incoming) {
+    if (organic >= maxResults) break;
+    if (seen.has(product.url)) continue;
+
+    seen.add(product.url);
+    merged.push(product);
+    if (!isSponsoredListing(product)) organic++;
+  }
+
+  return merged;
+}
+
+/**
+ * Count organic tiles whose title contains most of the query's tokens
+ */
+export function countStrongCandidates(products: ScrapedProduct[], query: string): number {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return 0;
+
+  return products.filter((product) => {
+    if (isSponsoredListing(product)) return false;
+    const titleTokens = new Set(tokenize(product.title));
+    const shared = queryTokens.filter((token) => titleTokens.has(token)).length;
+    return shared / queryTokens.length >= STRONG_OVERLAP;
+  }).length;
+}
+
+/**
+ * Whether scraping can stop: the result cap is hit or enough strong candidates exist
+ */
+export function hasEnoughResults(
+  products: ScrapedProduct[],
+  query: string | undefined,
+  depth: ScrapeDepthConfig
+): boolean {
+  if (countOrganic(products) >= depth.maxResults) return true;
+  return !!query && countStrongCandidates(products, query) >= depth.enoughCandidates;
+}
+
+function countOrganic(products: ScrapedProduct[]): number {
+  return products.filter((product) => !isSponsoredListing(product)).length;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1);
+}
@@ -0,0 +1,101 @@
+import { FulfilmentBadge, SelectorTrace, SellerInfo, SellerSelectors } from '@/types';
+import { getElementText, queryAll, queryFirst } from './dom';
+
+/**
+ * Seller Extraction
+ * Marketplace listings (Amazon, Flipkart, Snapdeal) come from third-party
+ * sellers; the seller name, rating and fulfilment badge tell them apart.
+ */
+
+// Text that marks a fulfilled listing when no badge element is present
+const FULFILMENT_TEXT: Record<FulfilmentBadge, RegExp> = {
+  fba: /fulfilled by amazon|ships from\s*:?\s*amazon/i,
+  assured: /flipkart assured|\bf-assured\b/i,
+  plus: /snapdeal plus|\bsd plus\b/i,
+};
+
+export const FULFILMENT_LABELS: Record<FulfilmentBadge, string> = {
+  fba: 'Fulfilled by Amazon',
+  assured: 'Flipkart Assured',
+  plus: 'Snapdeal Plus',
+};
+
+/**
+ * Extract seller info from a product page or search tile.
+ * Returns undefined when the page says nothing about the seller.
+ */
+export function extractSeller(
+  root: ParentNode,
+  selectors: SellerSelectors | undefined,
+  badge: FulfilmentBadge | undefined,
+  trace?: SelectorTrace
+): SellerInfo | undefined {
+  if (!selectors && !badge) return undefined;
+
+  const name = selectors?.name
+    ? cleanSellerName(getElementText(root, selectors.name, trace?.field('sellerName')))
+    : '';
+  const ratingText = selectors?.rating
+    ? getElementText(root, selectors.rating, trace?.field('sellerRating'))
+    : '';
+  const rating = parseSellerRating(ratingText);
+  const fulfilment = badge && isFulfilled(root, selectors, badge) ? badge : undefined;
+
+  if (!name && rating === undefined && !fulfilment) return undefined;
+
+  return {
+    name: name || undefined,
+    rating,
+    fulfilment,
+  };
+}
+
+function isFulfilled(
+  root: ParentNode,
+  selectors: SellerSelectors | undefined,
+  badge: FulfilmentBadge
+): boolean {
+  if (selectors?.fulfilled && queryFirst(root, selectors.fulfilled)) return true;
+
+  // A search tile only describes its own listing, but a product page also
+  // mentions fulfilment in FAQs, filters and other sellers' offers
+  const scopes = isDocument(root)
+    ? selectors?.container
+      ? queryAll(root, selectors.container)
+      : []
+    : [root as Element];
+  return scopes.some((scope) => FULFILMENT_TEXT[badge].test(scope.textContent || ''));
+}
+
+function isDocument(root: ParentNode): root is Document {
+  return root.nodeType === Node.DOCUMENT_NODE;
+}
+
+/**
+ * Strip "Sold by" / "Visit the ... Store" wrappers from a seller name
+ */
+export function cleanSellerName(text: string): string {
+  return text
+    .replace(/^(sold by|seller)\s*:?\s*/i, '')
+    .replace(/\s*\(.*?\)\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse a seller rating to a 0-5 scale.
+ * Accepts "4.3", "4.3 ★" and Amazon-style "92% positive".
+ */
+export function parseSellerRating(text: string): number | undefined {
+  if (!text) return undefined;
+
+  const percent = text.match(/(\d{1,3})\s*%/);
+  if (percent) {
+    const value = parseInt(percent[1], 10);
+    return value <= 100 ? Math.round((value / 20) * 10) / 10 : undefined;
+  }
+
+  const match = text.match(/\d+(\.\d+)?/);
+  const value = match ? parseFloat(match[0]) : NaN;
+  return value > 0 && value <= 5 ? value : undefined;
+}
@@ -0,0 +1,189 @@
+import { ProductAttributes, SelectorTrace } from '@/types';
+import { queryAll } from './dom';
+import { extractStorage } from './product';
+
+/**
+ * Specification Tables
+ * Reads the "Specifications" / "Technical Details" block of a product page
+ * into a raw key/value map and normalizes common keys into typed attributes.
+ */
+
+type SpecField = Exclude<keyof ProductAttributes, 'specs' | 'variant' | 'brand' | 'size'>;
+
+// Normalized spec key → attribute, first matching alias wins per attribute
+const SPEC_ALIASES: Array<[SpecField, RegExp]> = [
+  ['modelNumber', /^(item )?model (number|no|id)$|^(manufacturer )?part number$|^mpn$/],
+  ['model', /^model( name)?$/],
+  ['processor', /^(processor|chipset|cpu|soc)( (name|type|model))?$/],
+  ['displaySize', /^(screen|display)( size)?$|^display size$/],
+  ['battery', /^battery( capacity| power)?( rating)?$/],
+  ['weight', /^(item |product |net )?weight$/],
+  [
+    'storage',
+    /^(internal |inbuilt )?storage$|^rom$|^memory storage capacity$|^(ssd|hard disk) capacity$/,
+  ],
+  ['ram', /^(ram|ram size|memory|system memory|installed ram)$/],
+  ['color', /^colou?r( name)?$/],
+];
+
+/**
+ * Extract spec rows from every element of the first selector that matches,
+ * and normalize them. The raw map is kept under `specs`.
+ */
+export function extractSpecAttributes(
+  root: ParentNode,
+  selectors: string[] | undefined,
+  trace?: SelectorTrace
+): ProductAttributes | undefined {
+  if (!selectors) return undefined;
+
+  const specs: Record<string, string> = {};
+  queryAll(root, selectors, trace?.field('specs')).forEach((container) => {
+    readSpecRows(container).forEach(([key, value]) => {
+      if (!(key in specs)) specs[key] = value;
+    });
+  });
+
+  return Object.keys(specs).length > 0 ? normalizeSpecs(specs) : undefined;
+}
+
+/**
+ * Key/value rows from a table, definition list, or list of two-part items
+ */
+export function readSpecRows(container: Element): Array<[string, string]> {
+  const rows: Array<[string, string]> = [];
+  const push = (key: string, value: string) => {
+    const cleanKey = cleanSpecText(key).replace(/\s*:$/, '');
+    const cleanValue = cleanSpecText(value);
+    if (cleanKey && cleanValue) rows.push([cleanKey, cleanValue]);
+  };
+
+  const tableRows = container.querySelectorAll('tr');
+  if (tableRows.length > 0) {
+    tableRows.forEach((row) => {
+      const cells = row.querySelectorAll('th, td');
+      if (cells.length >= 2) push(cells[0].textContent || '', cells[1].textContent || '');
+    });
+    return rows;
+  }
+
+  const terms = container.querySelectorAll('dt');
+  if (terms.length > 0) {
+    terms.forEach((term) => {
+      const definition = term.nextElementSibling;
+      if (definition?.tagName === 'DD') push(term.textContent || '', definition.textContent || '');
+    });
+    return rows;
+  }
+
+  const items = container.querySelectorAll('li');
+  const entries = items.length > 0 ? Array.from(items) : Array.from(container.children);
+  entries.forEach((item) => {
+    const parts = leafParts(item);
+    if (parts.length >= 2) {
+      push(
+        parts[0].textContent || '',
+        parts
+          .slice(1)
+          .map((part) => part.textContent)
+          .join(' ')
+      );
+      return;
+    }
+
+    // "Key : Value" in a single text node
+    const text = cleanSpecText(item.textContent || '');
+    const separator = text.indexOf(':');
+    if (separator > 0) push(text.slice(0, separator), text.slice(separator + 1));
+  });
+  return rows;
+}
+
+/**
+ * Descend through single-child wrappers to the element holding key and value
+ */
+function leafParts(item: Element): Element[] {
+  let current = item;
+  while (current.children.length === 1) {
+    current = current.children[0];
+  }
+  return Array.from(current.children);
+}
+
+function cleanSpecText(text: string): string {
+  // Amazon pads detail keys with bidi marks: "Item model number ‏ : ‎"
+  return text
+    .replace(/[\u200e\u200f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Map raw spec rows onto typed attributes
+ */
+export function normalizeSpecs(specs: Record<string, string>): ProductAttributes {
+  const attributes: ProductAttributes = { specs };
+
+  Object.entries(specs).forEach(([key, value]) => {
+    const normalizedKey = key
+      .toLowerCase()
+      .replace(/[^a-z0-9 ]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    const alias = SPEC_ALIASES.find(
+      ([field, pattern]) => attributes[field] === undefined && pattern.test(normalizedKey)
+    );
+    if (!alias) return;
+
+    const field = alias[0];
+    switch (field) {
+      case 'displaySize':
+        attributes.displaySize = parseDisplaySize(value);
+        break;
+      case 'battery':
+        attributes.battery = parseBattery(value);
+        break;
+      case 'weight':
+        attributes.weight = parseWeight(value);
+        break;
+      case 'storage':
+      case 'ram':
+        attributes[field] = extractStorage(value) || undefined;
+        break;
+      default:
+        attributes[field] = value;
+    }
+  });
+
+  return attributes;
+}
+
+/**
+ * Screen size in inches: "6.1 inch", "15.49 cm (6.1 inch)", "39.62 cm"
+ */
+export function parseDisplaySize(text: string): number | undefined {
+  const inches = text.match(/(\d+(?:\.\d+)?)\s*(?:inch(?:es)?\b|"|”)/i);
+  if (inches) return parseFloat(inches[1]);
+
+  const cm = text.match(/(\d+(?:\.\d+)?)\s*cm\b/i);
+  return cm ? Math.round((parseFloat(cm[1]) / 2.54) * 10) / 10 : undefined;
+}
+
+/**
+ * Battery capacity in mAh: "3349 mAh", "3349 Milliamp Hours"
+ */
+export function parseBattery(text: string): number | undefined {
+  const match = text.replace(/,/g, '').match(/(\d+)\s*(?:mah|milliamp[\s-]?hours?)\b/i);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Weight in grams: "171 g", "1.5 kg", "171 Grams"
+ */
+export function parseWeight(text: string): number | undefined {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(kg|kilograms?|g|gm|grams?)\b/i);
+  if (!match) return undefined;
+
+  const value = parseFloat(match[1]);
+  return Math.round(/^k/i.test(match[2]) ? value * 1000 : value);
+}
@@ -0,0 +1,44 @@
+import { Product, ScrapedProduct } from '@/types';
+import { queryFirst } from './dom';
+
+/**
+ * Sponsored Listings
+ * Marketplaces put paid placements at the top of the grid. They are tagged
+ * while scraping so they don't crowd out organic results or win the match.
+ */
+
+// Ad markers shared across sites: container classes and ad data attributes
+const AD_MARKERS = [
+  '.AdHolder',
+  '[data-component-type="sp-sponsored-result"]',
+  '[data-ad]',
+  '[data-ad-id]',
+  '[data-sponsored="true"]',
+  '[data-is-sponsored="true"]',
+];
+
+// Text of a standalone label: "Sponsored", "Ad", "Promoted"
+const LABEL_TEXT = /^(sponsored|ad|ads|promoted|featured ad)$/i;
+
+/**
+ * Whether a search tile is a paid placement: the site's own marker selectors,
+ * a shared ad attribute on or inside the tile, or a standalone "Sponsored" label
+ */
+export function isSponsoredTile(container: Element, selectors?: string[]): boolean {
+  if (selectors && queryFirst(container, selectors)) return true;
+  if (AD_MARKERS.some((marker) => container.matches(marker))) return true;
+  if (queryFirst(container, AD_MARKERS)) return true;
+
+  return Array.from(container.querySelectorAll('span, div, p, label')).some(
+    (element) =>
+      element.children.length === 0 &&
+      LABEL_TEXT.test((element.textContent || '').replace(/[•·|]/g, '').trim())
+  );
+}
+
+/**
+ * Whether a listing was tagged as sponsored when it was scraped
+ */
+export function isSponsoredListing(product: Product | ScrapedProduct): boolean {
+  return (product as ScrapedProduct).isSponsored === true;
+}
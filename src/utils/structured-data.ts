@@ -0,0 +1,277 @@
+import { Product, ProductDataField, ProductDataSource } from '@/types';
+import { safeJsonParse } from './helpers';
+import { parseSchemaCondition } from './condition';
+
+/**
+ * Structured Data Extraction
+ * Reads schema.org Product markup (JSON-LD, microdata) and OpenGraph tags.
+ * This markup is maintained for search engines and changes far less often
+ * than retailer class names, so it is tried before CSS selectors.
+ */
+
+export interface StructuredProductData {
+  title?: string;
+  price?: number;
+  currency?: string;
+  brand?: string;
+  image?: string;
+  sku?: string;
+  gtin?: string;
+  availability?: Product['availability'];
+  condition?: Product['condition'];
+  rating?: number;
+  reviewCount?: number;
+}
+
+export interface StructuredDataResult {
+  data: StructuredProductData;
+  sources: Partial<Record<ProductDataField, ProductDataSource>>;
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+const GTIN_KEYS = ['gtin13', 'gtin', 'gtin14', 'gtin12', 'gtin8', 'ean', 'isbn'];
+
+/**
+ * Extract product data from all structured sources, in priority order:
+ * JSON-LD → microdata → OpenGraph. Earlier sources win per field.
+ */
+export function extractStructuredData(doc: Document): StructuredDataResult {
+  const result: StructuredDataResult = { data: {}, sources: {} };
+
+  mergeInto(result, extractJsonLd(doc), 'json-ld');
+  mergeInto(result, extractMicrodata(doc), 'microdata');
+  mergeInto(result, extractOpenGraph(doc), 'opengraph');
+
+  return result;
+}
+
+/**
+ * Fill fields that are still missing, recording the source
+ */
+function mergeInto(
+  result: StructuredDataResult,
+  partial: StructuredProductData,
+  source: ProductDataSource
+): void {
+  (Object.keys(partial) as Array<keyof StructuredProductData>).forEach((field) => {
+    const value = partial[field];
+    if (value === undefined || value === '' || result.data[field] !== undefined) return;
+
+    (result.data as Record<string, unknown>)[field] = value;
+    result.sources[field] = source;
+  });
+}
+
+/**
+ * JSON-LD: <script type="application/ld+json"> Product / Offer blocks
+ */
+export function extractJsonLd(doc: Document): StructuredProductData {
+  const scripts = Array.from(doc.querySelectorAll('script[type="application/ld+json"]'));
+
+  for (const script of scripts) {
+    const parsed = safeJsonParse<unknown>(script.textContent || '', null);
+    const product = flattenJsonLd(parsed).find((node) => hasType(node, 'Product'));
+
+    if (product) {
+      return readJsonLdProduct(product);
+    }
+  }
+
+  return {};
+}
+
+/**
+ * Flatten arrays and @graph containers into a list of nodes
+ */
+function flattenJsonLd(value: unknown): JsonLdNode[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(flattenJsonLd);
+  }
+  if (value && typeof value === 'object') {
+    const node = value as JsonLdNode;
+    return node['@graph'] ? [node, ...flattenJsonLd(node['@graph'])] : [node];
+  }
+  return [];
+}
+
+function hasType(node: JsonLdNode, type: string): boolean {
+  const nodeType = node['@type'];
+  return Array.isArray(nodeType) ? nodeType.includes(type) : nodeType === type;
+}
+
+function readJsonLdProduct(product: JsonLdNode): StructuredProductData {
+  const offer = asNode(firstOf(product.offers));
+  const priceSpecification = asNode(offer?.priceSpecification);
+  const image = firstOf(product.image);
+  const aggregateRating = asNode(product.aggregateRating);
+  const gtinKey = GTIN_KEYS.find((key) => product[key]);
+
+  return {
+    title: asText(product.name),
+    price: parseNumber(offer?.price ?? offer?.lowPrice ?? priceSpecification?.price),
+    currency: asText(offer?.priceCurrency ?? priceSpecification?.priceCurrency),
+    brand: asText(asNode(product.brand)?.name ?? product.brand),
+    image: asText(asNode(image)?.url ?? image),
+    sku: asText(product.sku ?? product.mpn),
+    gtin: gtinKey ? asText(product[gtinKey]) : undefined,
+    availability: parseAvailability(asText(offer?.availability)),
+    condition: parseSchemaCondition(asText(offer?.itemCondition ?? product.itemCondition)),
+    rating: parseNumber(aggregateRating?.ratingValue),
+    reviewCount: parseNumber(aggregateRating?.ratingCount ?? aggregateRating?.reviewCount),
+  };
+}
+
+/**
+ * Microdata: itemprop attributes inside an itemtype=Product. Without one,
+ * itemprops on the page belong to breadcrumbs, listings or reviews.
+ */
+export function extractMicrodata(doc: Document): StructuredProductData {
+  const scope = doc.querySelector('[itemtype*="schema.org/Product"]');
+  if (!scope) return {};
+
+  const brandEl = scope.querySelector('[itemprop="brand"]');
+  const brand = brandEl?.querySelector('[itemprop="name"]') || brandEl;
+  const gtinEl = scope.querySelector('[itemprop^="gtin"], [itemprop="isbn"]');
+
+  return {
+    title: readItemprop(findOwnName(scope)),
+    price: parseNumber(
+      readItemprop(scope.querySelector('[itemprop="price"], [itemprop="lowPrice"]'))
+    ),
+    currency: readItemprop(scope.querySelector('[itemprop="priceCurrency"]')),
+    brand: readItemprop(brand),
+    image: readItemprop(scope.querySelector('[itemprop="image"]')),
+    sku: readItemprop(scope.querySelector('[itemprop="sku"]')),
+    gtin: readItemprop(gtinEl),
+    availability: parseAvailability(readItemprop(scope.querySelector('[itemprop="availability"]'))),
+    condition: parseSchemaCondition(
+      readItemprop(scope.querySelector('[itemprop="itemCondition"]'))
+    ),
+    rating: parseNumber(readItemprop(scope.querySelector('[itemprop="ratingValue"]'))),
+    reviewCount: parseNumber(
+      readItemprop(scope.querySelector('[itemprop="ratingCount"], [itemprop="reviewCount"]'))
+    ),
+  };
+}
+
+/**
+ * Product name, skipping names nested in brand/offer/review items
+ */
+function findOwnName(scope: Element): Element | null {
+  return (
+    Array.from(scope.querySelectorAll('[itemprop="name"]')).find(
+      (element) =>
+        !element.parentElement?.closest(
+          '[itemprop="brand"], [itemprop="offers"], [itemprop="review"]'
+        )
+    ) || null
+  );
+}
+
+/**
+ * Read a microdata value: content → href/src → text
+ */
+function readItemprop(element: Element | null): string | undefined {
+  if (!element) return undefined;
+
+  const value =
+    element.getAttribute('content') ||
+    element.getAttribute('href') ||
+    element.getAttribute('src') ||
+    element.textContent;
+
+  return value?.trim() || undefined;
+}
+
+/**
+ * OpenGraph: og:* and product:* meta tags
+ */
+export function extractOpenGraph(doc: Document): StructuredProductData {
+  const meta = (property: string): string | undefined => {
+    const element = doc.querySelector(`meta[property="${property}"], meta[name="${property}"]`);
+    return element?.getAttribute('content')?.trim() || undefined;
+  };
+
+  return {
+    title: cleanOpenGraphTitle(meta('og:title')),
+    price: parseNumber(meta('product:price:amount') ?? meta('og:price:amount')),
+    currency: meta('product:price:currency') ?? meta('og:price:currency'),
+    brand: meta('product:brand') ?? meta('og:brand'),
+    image: meta('og:image'),
+    sku: meta('product:retailer_item_id'),
+    availability: parseAvailability(meta('product:availability') ?? meta('og:availability')),
+    condition: parseSchemaCondition(meta('product:condition') ?? meta('og:condition')),
+  };
+}
+
+/**
+ * Strip retailer SEO wrappers, e.g. "Buy X Online At Best Price @ Tata CLiQ"
+ */
+function cleanOpenGraphTitle(title?: string): string | undefined {
+  if (!title) return undefined;
+
+  return (
+    title
+      .replace(/^buy\s+/i, '')
+      .replace(/\s+(online\s+)?(at|@)\s+(best|lowest)\s+price.*$/i, '')
+      .replace(/\s+(\||@)\s+[^|@]*$/, '')
+      .trim() || undefined
+  );
+}
+
+/**
+ * Map schema.org / OpenGraph availability values to our status
+ */
+function parseAvailability(value?: string): Product['availability'] | undefined {
+  if (!value) return undefined;
+
+  const normalized = value.toLowerCase().replace(/^https?:\/\/schema\.org\//, '');
+  if (/outofstock|soldout|discontinued|out of stock/.test(normalized)) return 'out-of-stock';
+  if (/limitedavailability/.test(normalized)) return 'limited-stock';
+  if (/instock|instoreonly|onlineonly|in stock|preorder/.test(normalized)) return 'in-stock';
+  return undefined;
+}
+
+/**
+ * Parse a number in either notation: "1,299.00", "1.299,00", "4,5". The
+ * last separator is the decimal one unless it groups thousands ("1,299").
+ */
+function parseNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value > 0 ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  const match = value.match(/\d+(?:[.,]\d+)*/);
+  if (!match) return undefined;
+
+  const digits = match[0];
+  const decimalAt = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','));
+  const separator = digits[decimalAt];
+  const isGrouping =
+    decimalAt < 0 ||
+    digits.indexOf(separator) !== decimalAt ||
+    (separator === ',' && !digits.includes('.') && digits.length - decimalAt === 4);
+
+  const parsed = isGrouping
+    ? parseFloat(digits.replace(/[.,]/g, ''))
+    : parseFloat(
+        `${digits.slice(0, decimalAt).replace(/[.,]/g, '')}.${digits.slice(decimalAt + 1)}`
+      );
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function firstOf(value: unknown): unknown {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function asNode(value: unknown): JsonLdNode | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as JsonLdNode)
+    : undefined;
+}
@@ -0,0 +1,97 @@
+import { ProductAttributes, SelectorTrace, VariantSelectors } from '@/types';
+import { queryFirst } from './dom';
+import { extractRAM, extractStorage } from './product';
+
+/**
+ * Selected Variant
+ * Amazon and Flipkart keep one title across storage/colour swatches, so the
+ * variant the user picked is read from the picker itself.
+ */
+
+const DIMENSIONS: Array<keyof VariantSelectors> = ['storage', 'ram', 'color', 'size'];
+
+/**
+ * Read the selected option of each variant picker into product attributes.
+ * Returns undefined when the page has no picker or nothing is selected.
+ */
+export function extractSelectedVariant(
+  root: ParentNode,
+  selectors: VariantSelectors | undefined,
+  trace?: SelectorTrace
+): ProductAttributes | undefined {
+  if (!selectors) return undefined;
+
+  const attributes: ProductAttributes = {};
+  const labels: string[] = [];
+
+  DIMENSIONS.forEach((dimension) => {
+    const dimensionSelectors = selectors[dimension];
+    if (!dimensionSelectors) return;
+
+    const tracer = trace?.field(`variant${dimension[0].toUpperCase()}${dimension.slice(1)}`);
+    const match = queryFirst(
+      root,
+      dimensionSelectors,
+      (element) => !!readOptionLabel(element),
+      tracer
+    );
+    const label = match ? readOptionLabel(match.element) : '';
+    if (!label) return;
+
+    labels.push(label);
+    applyLabel(attributes, dimension, label);
+  });
+
+  if (labels.length === 0) return undefined;
+  attributes.variant = labels.join(' / ');
+  return attributes;
+}
+
+/**
+ * Storage pickers often read "8 GB RAM | 256 GB", and Amazon files phone
+ * storage under "Size", so capacities are parsed out of any dimension.
+ */
+function applyLabel(
+  attributes: ProductAttributes,
+  dimension: keyof VariantSelectors,
+  label: string
+) {
+  const ram = extractRAM(label);
+  const storage = extractStorage(label.replace(/\b\d+\s*gb\s+ram\b/i, ''));
+
+  switch (dimension) {
+    case 'ram':
+      attributes.ram = ram || storage || label;
+      break;
+    case 'color':
+      attributes.color = label;
+      break;
+    case 'storage':
+    case 'size':
+      if (ram) attributes.ram = ram;
+      if (storage) {
+        attributes.storage = storage;
+      } else if (dimension === 'size') {
+        attributes.size = label;
+      }
+      break;
+  }
+}
+
+/**
+ * Visible text of a swatch, falling back to its tooltip or image alt text
+ */
+export function readOptionLabel(element: Element): string {
+  const label =
+    element.textContent?.trim() ||
+    element.getAttribute('title') ||
+    element.getAttribute('aria-label') ||
+    element.querySelector('img')?.getAttribute('alt') ||
+    element.getAttribute('data-value') ||
+    '';
+
+  return label
+    .replace(/^(colou?r|size|storage|capacity|ram|shade)\s*:\s*/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
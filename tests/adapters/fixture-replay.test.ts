@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SITE_CONFIGS } from '@/config/sites';
+import { getSiteAdapter } from '@/adapters';
+import { SelectorTraceCollector } from '@/services/selector-health';
+import logger, { LogLevel } from '@/utils/logger';
+
+/**
+ * Fixture Replay
+ * Runs each site adapter against saved search and product page HTML and
+ * compares the output to golden JSON. After updating a fixture, run
+ * `npm run test:update-fixtures` to regenerate the goldens and review the diff.
+ */
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+const UPDATE = !!process.env.UPDATE_FIXTURES;
+
+const pages: Record<string, { searchUrl: string; productUrl: string }> = JSON.parse(
+  fs.readFileSync(path.join(FIXTURES_DIR, 'pages.json'), 'utf8')
+);
+
+function loadDocument(site: string, page: string): Document {
+  const html = fs.readFileSync(path.join(FIXTURES_DIR, site, `${page}.html`), 'utf8');
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+function matchGolden(site: string, name: string, actual: unknown): void {
+  const file = path.join(FIXTURES_DIR, site, `${name}.expected.json`);
+  // Round-trip so undefined fields compare the same way they are stored
+  const normalized = JSON.parse(JSON.stringify(actual));
+
+  if (UPDATE) {
+    fs.writeFileSync(file, JSON.stringify(normalized, null, 2) + '\n');
+    return;
+  }
+
+  if (!fs.existsSync(file)) {
+    throw new Error(`Missing golden ${file}; run npm run test:update-fixtures`);
+  }
+  expect(normalized).toEqual(JSON.parse(fs.readFileSync(file, 'utf8')));
+}
+
+beforeAll(() => {
+  logger.setLevel(LogLevel.ERROR);
+  // Delivery ETAs are relative to scrape time; pin it to when the fixtures were saved
+  jest.useFakeTimers({ now: new Date(2025, 9, 19, 12, 0) });
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+});
+
+describe.each(Object.keys(SITE_CONFIGS))('%s fixtures', (site) => {
+  const adapter = getSiteAdapter(site);
+
+  it('has fixture pages', () => {
+    expect(pages[site]).toBeDefined();
+  });
+
+  it('extracts search results', () => {
+    const trace = new SelectorTraceCollector();
+    const doc = loadDocument(site, 'search');
+    const results = adapter.extractSearchResults(doc, pages[site].searchUrl, trace);
+    const nextPageUrl = adapter.findNextPageUrl(doc, pages[site].searchUrl);
+
+    expect(results.length).toBeGreaterThan(0);
+    matchGolden(site, 'search', { results, nextPageUrl, selectors: trace.toReport() });
+  });
+
+  it('extracts product page', () => {
+    const trace = new SelectorTraceCollector();
+    const product = adapter.extractProduct(
+      loadDocument(site, 'product'),
+      pages[site].productUrl,
+      trace
+    );
+
+    expect(product.title).not.toBe('Product not found');
+    matchGolden(site, 'product', { product, selectors: trace.toReport() });
+  });
+});
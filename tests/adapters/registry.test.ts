@@ -0,0 +1,37 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAdapterForHostname, getAdapterForPage } from '@/adapters';
+import logger, { LogLevel } from '@/utils/logger';
+
+beforeAll(() => {
+  logger.setLevel(LogLevel.ERROR);
+});
+
+describe('getAdapterForPage', () => {
+  it('scrapes an Amazon Fresh search tab as Amazon Fresh, not Amazon', () => {
+    const html = fs.readFileSync(
+      path.join(__dirname, '..', 'fixtures', 'amazonfresh', 'search.html'),
+      'utf8'
+    );
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    // The tab fallback opens www.amazon.in, which the hostname alone resolves to Amazon
+    expect(getAdapterForHostname('www.amazon.in')?.site).toBe('amazon');
+
+    const adapter = getAdapterForPage('amazonfresh', 'www.amazon.in');
+    expect(adapter?.site).toBe('amazonfresh');
+
+    const products = adapter!.extractSearchResults(
+      doc,
+      'https://www.amazon.in/s?i=nowstore&k=milk'
+    );
+    expect(products.length).toBeGreaterThan(0);
+    expect(new Set(products.map((product) => product.site))).toEqual(new Set(['amazonfresh']));
+  });
+
+  it('falls back to the hostname for a missing or foreign site key', () => {
+    expect(getAdapterForPage(undefined, 'www.flipkart.com')?.site).toBe('flipkart');
+    expect(getAdapterForPage('amazonfresh', 'www.flipkart.com')?.site).toBe('flipkart');
+    expect(getAdapterForPage('unknown', 'example.com')).toBeNull();
+  });
+});
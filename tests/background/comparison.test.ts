@@ -0,0 +1,67 @@
+import { ErrorCode } from '@/types';
+import { timePhase } from '@/background/comparison';
+import { latencyTracker } from '@/services/latency-tracker';
+import { scheduler } from '@/services/scheduler';
+import { FineDealError } from '@/utils/helpers';
+import logger, { LogLevel } from '@/utils/logger';
+import { installStorage } from '../chrome-storage';
+
+beforeAll(() => {
+  logger.setLevel(LogLevel.ERROR);
+  installStorage();
+  // Loads in one second, five times over
+  [1, 2, 3, 4, 5].forEach(() => latencyTracker.record('croma', 'load', 1000));
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('timePhase', () => {
+  const loadIn = (ms: number, signal = new AbortController().signal) => {
+    const timed = timePhase('croma', 'load', signal, () => new Promise((r) => setTimeout(r, ms)));
+    jest.advanceTimersByTime(ms);
+    return timed;
+  };
+
+  it('tells the scheduler whether the phase ran slow', async () => {
+    const reportLoad = jest.spyOn(scheduler, 'reportLoad');
+
+    await loadIn(1100);
+    await loadIn(4000);
+
+    expect(reportLoad.mock.calls).toEqual([[false], [true]]);
+  });
+
+  it('records a timeout as the full wait', async () => {
+    const reportLoad = jest.spyOn(scheduler, 'reportLoad');
+    const record = jest.spyOn(latencyTracker, 'record');
+    const timeout = latencyTracker.timeoutFor('croma', 'load');
+
+    const timedOut = timePhase('croma', 'load', new AbortController().signal, () =>
+      Promise.reject(new FineDealError('slow', ErrorCode.TIMEOUT))
+    );
+    jest.advanceTimersByTime(timeout);
+
+    await expect(timedOut).rejects.toThrow('slow');
+    expect(record).toHaveBeenCalledWith('croma', 'load', timeout);
+    expect(reportLoad).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves load and history alone when the comparison is cancelled', async () => {
+    const reportLoad = jest.spyOn(scheduler, 'reportLoad');
+    const record = jest.spyOn(latencyTracker, 'record');
+    const controller = new AbortController();
+    controller.abort();
+
+    await loadIn(4000, controller.signal);
+
+    expect(reportLoad).not.toHaveBeenCalled();
+    expect(record).not.toHaveBeenCalled();
+  });
+});
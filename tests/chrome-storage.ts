@@ -0,0 +1,23 @@
+/**
+ * In-memory chrome.storage.local for tests; returns the backing object
+ */
+export function installStorage(initial: Record<string, unknown> = {}): Record<string, unknown> {
+  const store: Record<string, unknown> = JSON.parse(JSON.stringify(initial));
+  const local = {
+    get: async (keys: string | string[] | null) => {
+      if (keys === null) return { ...store };
+      const wanted = Array.isArray(keys) ? keys : [keys];
+      return Object.fromEntries(
+        wanted.filter((key) => key in store).map((key) => [key, store[key]])
+      );
+    },
+    set: async (items: Record<string, unknown>) => {
+      Object.assign(store, JSON.parse(JSON.stringify(items)));
+    },
+    remove: async (keys: string | string[]) => {
+      (Array.isArray(keys) ? keys : [keys]).forEach((key) => delete store[key]);
+    },
+  };
+  (globalThis as unknown as { chrome: unknown }).chrome = { storage: { local } };
+  return store;
+}
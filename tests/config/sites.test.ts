@@ -0,0 +1,28 @@
+import { getEnabledSites, siteSellsCategory, SITE_CONFIGS } from '@/config/sites';
+import { detectCategory } from '@/utils/product';
+
+describe('site categories', () => {
+  it('detects groceries and general electronics from titles', () => {
+    expect(detectCategory('Aashirvaad Shudh Chakki Atta 5 kg')).toBe('grocery');
+    expect(detectCategory('JBL Flip 6 Portable Bluetooth Speaker')).toBe('electronics');
+    expect(detectCategory('Apple MacBook Air M2')).toBe('electronics-laptop');
+  });
+
+  it('matches top-level categories and their subcategories', () => {
+    expect(siteSellsCategory(SITE_CONFIGS.reliancedigital, 'electronics-laptop')).toBe(true);
+    expect(siteSellsCategory(SITE_CONFIGS.jiomart, 'electronics-laptop')).toBe(false);
+    expect(siteSellsCategory(SITE_CONFIGS.jiomart, 'general')).toBe(true);
+    expect(siteSellsCategory(SITE_CONFIGS.amazon, 'grocery')).toBe(true);
+  });
+
+  it("doesn't search grocery stores for a laptop", () => {
+    const laptopSites = getEnabledSites(['IN'], 'electronics-laptop');
+    expect(laptopSites).toContain('reliancedigital');
+    expect(laptopSites).not.toContain('jiomart');
+    expect(laptopSites).not.toContain('amazonfresh');
+
+    const grocerySites = getEnabledSites(['IN'], 'grocery');
+    expect(grocerySites).toEqual(expect.arrayContaining(['amazon', 'jiomart', 'amazonfresh']));
+    expect(grocerySites).not.toContain('reliancedigital');
+  });
+});
@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseSearchHtml } from '@/offscreen/parse-search';
+import logger, { LogLevel } from '@/utils/logger';
+
+const fixture = (site: string) =>
+  fs.readFileSync(path.join(__dirname, '..', 'fixtures', site, 'search.html'), 'utf8');
+
+beforeAll(() => {
+  logger.setLevel(LogLevel.ERROR);
+});
+
+describe('parseSearchHtml', () => {
+  it('extracts tiles, next page and selector outcomes from fetched HTML', () => {
+    const result = parseSearchHtml({
+      site: 'amazon',
+      html: fixture('amazon'),
+      pageUrl: 'https://www.amazon.in/s?k=iphone+15',
+      query: 'iphone 15',
+    });
+
+    expect(result.products.map((product) => product.productId)).toEqual([
+      'B0D8KWJ3XT',
+      'B0CHX1W1XY',
+      'B0CHX3QBCH',
+    ]);
+    expect(result.products[0].isSponsored).toBe(true);
+    expect(result.nextPageUrl).toBe('https://www.amazon.in/s?k=iphone+15&page=2&ref=sr_pg_1');
+    expect(result.report.container).toBe(0);
+  });
+
+  it('keeps paginating while fewer than enoughCandidates tiles match', () => {
+    const result = parseSearchHtml({
+      site: 'amazon',
+      html: fixture('amazon'),
+      pageUrl: 'https://www.amazon.in/s?k=iphone+15',
+      query: 'apple iphone 15',
+    });
+
+    // Two strong candidates, below the default threshold of five
+    expect(result.nextPageUrl).not.toBeNull();
+  });
+
+  it('flags a bot check served instead of results', () => {
+    const captcha = parseSearchHtml({
+      site: 'amazon',
+      html: `<html><head><title>Amazon.in</title></head><body>
+        <form action="/errors/validateCaptcha"><input id="captchacharacters"></form>
+      </body></html>`,
+      pageUrl: 'https://www.amazon.in/s?k=iphone+15',
+    });
+    expect(captcha.products).toEqual([]);
+    expect(captcha.blocked).toBe(true);
+
+    const results = parseSearchHtml({
+      site: 'amazon',
+      html: fixture('amazon'),
+      pageUrl: 'https://www.amazon.in/s?k=iphone+15',
+    });
+    expect(results.blocked).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  LatencyTracker,
+  PHASE_TIMEOUTS,
+  adaptiveTimeout,
+  percentile,
+} from '@/services/latency-tracker';
+import { installStorage } from '../chrome-storage';
+
+describe('percentile', () => {
+  it('picks the nearest-rank sample', () => {
+    const samples = [900, 100, 500, 300, 700];
+    expect(percentile(samples, 50)).toBe(500);
+    expect(percentile(samples, 95)).toBe(900);
+    expect(percentile([], 95)).toBe(0);
+  });
+});
+
+describe('adaptiveTimeout', () => {
+  const { ready, scrape } = PHASE_TIMEOUTS;
+
+  it('uses the default until a site has enough history', () => {
+    expect(adaptiveTimeout([800, 900], ready)).toBe(ready.initial);
+  });
+
+  it('follows the p95 with headroom within the phase bounds', () => {
+    // Fast site: p95 of 1.2s → 1.8s instead of the 5s default
+    expect(adaptiveTimeout([600, 700, 800, 1000, 1200], ready)).toBe(1800);
+    // Very fast and very slow sites are clamped
+    expect(adaptiveTimeout([100, 120, 150, 160, 200], ready)).toBe(ready.min);
+    expect(adaptiveTimeout([25000, 26000, 27000, 28000, 30000], scrape)).toBe(scrape.max);
+  });
+});
+
+describe('LatencyTracker', () => {
+  const recordAll = (tracker: LatencyTracker, durations: number[]) =>
+    durations.forEach((ms) => tracker.record('amazon', 'load', ms));
+
+  it('persists history and reloads it in a new service worker', async () => {
+    const store = installStorage();
+    recordAll(new LatencyTracker(), [900, 1000, 1000, 1100, 1200]);
+    // Let the queued writes land
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(store.search_latency).toEqual({ amazon: { load: [900, 1000, 1000, 1100, 1200] } });
+
+    const restarted = new LatencyTracker();
+    await restarted.load();
+    expect(restarted.typical('amazon', 'load')).toBe(1000);
+    expect(restarted.timeoutFor('amazon', 'load')).toBe(3000);
+  });
+
+  it('calls a duration slow only well past the usual p95', () => {
+    installStorage();
+    const tracker = new LatencyTracker();
+    recordAll(tracker, [900, 1000, 1000, 1100]);
+    expect(tracker.isSlow('amazon', 'load', 5000)).toBe(false);
+
+    recordAll(tracker, [1200]);
+    expect(tracker.isSlow('amazon', 'load', 1400)).toBe(false);
+    expect(tracker.isSlow('amazon', 'load', 1600)).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+import { ErrorCode } from '@/types';
+import { RequestScheduler } from '@/services/scheduler';
+import { FineDealError } from '@/utils/helpers';
+import logger, { LogLevel } from '@/utils/logger';
+
+beforeAll(() => {
+  logger.setLevel(LogLevel.ERROR);
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+const createScheduler = (maxConcurrent = 2) =>
+  new RequestScheduler({ maxConcurrent, limitFor: () => ({ burst: 2, perMinute: 6 }) });
+
+// Let queued promise callbacks run
+const flush = async () => {
+  for (let tick = 0; tick < 5; tick++) await Promise.resolve();
+};
+
+describe('RequestScheduler', () => {
+  it('spends the burst, then waits for the bucket to refill', async () => {
+    const scheduler = createScheduler(5);
+    const granted: number[] = [];
+
+    [1, 2, 3].forEach((id) => scheduler.acquire('amazon').then(() => granted.push(id)));
+    await flush();
+    expect(granted).toEqual([1, 2]);
+
+    // Six per minute: the next token is ten seconds out
+    jest.advanceTimersByTime(9000);
+    await flush();
+    expect(granted).toEqual([1, 2]);
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+    expect(granted).toEqual([1, 2, 3]);
+  });
+
+  it('caps searches in flight across sites and lets other sites past an empty bucket', async () => {
+    const scheduler = createScheduler(2);
+    const granted: string[] = [];
+    const releases: Array<() => void> = [];
+    const take = (site: string) =>
+      scheduler.acquire(site).then((release) => {
+        granted.push(site);
+        releases.push(release);
+      });
+
+    take('amazon');
+    take('amazon');
+    take('amazon');
+    take('flipkart');
+    await flush();
+    expect(granted).toEqual(['amazon', 'amazon']);
+
+    // Amazon's bucket is empty, so the freed slot goes to Flipkart
+    releases[0]();
+    await flush();
+    expect(granted).toEqual(['amazon', 'amazon', 'flipkart']);
+  });
+
+  it('shares one bucket between sites searched on the same host', async () => {
+    const scheduler = createScheduler(5);
+    const granted: string[] = [];
+    ['amazon', 'amazonfresh', 'amazonfresh', 'flipkart'].forEach((site) =>
+      scheduler.acquire(site).then(() => granted.push(site))
+    );
+    await flush();
+
+    // Amazon Fresh searches www.amazon.in too, so the second Fresh search waits
+    expect(granted).toEqual(['amazon', 'amazonfresh', 'flipkart']);
+  });
+
+  it('pauses a site after a bot check and backs off longer each time', async () => {
+    const scheduler = createScheduler();
+    const blocked = () => Promise.reject(new FineDealError('CAPTCHA', ErrorCode.RATE_LIMIT));
+
+    await expect(scheduler.run('flipkart', blocked)).rejects.toThrow('CAPTCHA');
+    await expect(scheduler.acquire('flipkart')).rejects.toMatchObject({
+      code: ErrorCode.RATE_LIMIT,
+    });
+    await expect(scheduler.run('croma', async () => ['listing'])).resolves.toEqual(['listing']);
+
+    jest.advanceTimersByTime(30_000);
+    await expect(scheduler.run('flipkart', blocked)).rejects.toThrow('CAPTCHA');
+
+    // Second strike: a minute this time
+    jest.advanceTimersByTime(30_000);
+    await expect(scheduler.acquire('flipkart')).rejects.toMatchObject({
+      code: ErrorCode.RATE_LIMIT,
+    });
+  });
+
+  it('treats a long run of empty pages like a block', async () => {
+    const scheduler = createScheduler();
+    [1, 2, 3, 4].forEach(() => scheduler.report('snapdeal', 'empty'));
+    scheduler.report('snapdeal', 'ok');
+    scheduler.report('snapdeal', 'empty');
+    await expect(scheduler.run('snapdeal', async () => [])).resolves.toEqual([]);
+
+    [1, 2, 3, 4].forEach(() => scheduler.report('snapdeal', 'empty'));
+    await expect(scheduler.acquire('snapdeal')).rejects.toMatchObject({
+      code: ErrorCode.RATE_LIMIT,
+    });
+  });
+
+  it('does not hold one genuinely empty search against a site', async () => {
+    const scheduler = createScheduler();
+
+    for (let search = 0; search < 8; search++) {
+      jest.advanceTimersByTime(10_000);
+      const listings = search % 2 === 0 ? [] : ['listing'];
+      await expect(scheduler.run('snapdeal', async () => listings)).resolves.toEqual(listings);
+    }
+  });
+
+  it('halves concurrency when the browser stays slow and grows it back slot by slot', () => {
+    const scheduler = new RequestScheduler({
+      maxConcurrent: 6,
+      limitFor: () => ({ burst: 9, perMinute: 9 }),
+    });
+    expect(scheduler.concurrencyLimit).toBe(3);
+
+    // A lone straggler is ignored
+    scheduler.reportLoad(true);
+    scheduler.reportLoad(false);
+    scheduler.reportLoad(true);
+    expect(scheduler.concurrencyLimit).toBe(3);
+
+    scheduler.reportLoad(true);
+    expect(scheduler.concurrencyLimit).toBe(1);
+
+    [1, 2, 3, 4, 5, 6].forEach(() => scheduler.reportLoad(false));
+    expect(scheduler.concurrencyLimit).toBe(3);
+  });
+
+  it('drops a cancelled waiter from the queue', async () => {
+    const scheduler = createScheduler(1);
+    const controller = new AbortController();
+
+    await scheduler.acquire('amazon');
+    const waiting = scheduler.acquire('amazon', controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+  });
+});
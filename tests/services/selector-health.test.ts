@@ -0,0 +1,41 @@
+import { FieldHealth, SiteHealth } from '@/types';
+import { BROKEN_THRESHOLD, findBrokenFields } from '@/services/selector-health';
+
+const missing = (): FieldHealth => ({
+  hits: { 0: 3 },
+  misses: BROKEN_THRESHOLD,
+  recent: [0, 0, 0, ...Array(BROKEN_THRESHOLD).fill(-1)],
+});
+const healthy = (): FieldHealth => ({ hits: { 0: 8 }, misses: 0, recent: Array(8).fill(0) });
+
+describe('findBrokenFields', () => {
+  it('flags required fields that keep missing', () => {
+    const health: Record<string, SiteHealth> = {
+      croma: {
+        lastScrape: 0,
+        fields: { 'searchPage.price': missing(), 'searchPage.title': healthy() },
+      },
+    };
+
+    expect(findBrokenFields(health)).toEqual([
+      { site: 'croma', field: 'searchPage.price', consecutiveMisses: BROKEN_THRESHOLD },
+    ]);
+  });
+
+  it('does not flag optional fields that many listings lack', () => {
+    const health: Record<string, SiteHealth> = {
+      nykaa: {
+        lastScrape: 0,
+        fields: {
+          'searchPage.rating': missing(),
+          'searchPage.image': missing(),
+          'productPage.variantColor': missing(),
+          'productPage.specs': missing(),
+          'productPage.title': healthy(),
+        },
+      },
+    };
+
+    expect(findBrokenFields(health)).toEqual([]);
+  });
+});
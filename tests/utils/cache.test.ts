@@ -0,0 +1,27 @@
+import { SmartCache } from '@/utils/cache';
+import { installStorage } from '../chrome-storage';
+
+describe('SmartCache', () => {
+  const settings = { user_settings: { currency: 'INR' }, search_latency: { amazon: {} } };
+
+  it('round-trips entries under its own key prefix', async () => {
+    const store = installStorage(settings);
+    const cache = new SmartCache();
+    const key = cache.generateKey('amazon', 'iphone 15');
+
+    await cache.set(key, ['listing']);
+    await expect(cache.get(key)).resolves.toEqual(['listing']);
+    expect(Object.keys(store).filter((stored) => stored.startsWith('cache:'))).toHaveLength(1);
+  });
+
+  it('keeps settings and history when cleared', async () => {
+    const store = installStorage(settings);
+    const cache = new SmartCache();
+    await cache.set(cache.generateKey('amazon', 'iphone 15'), ['listing']);
+    await cache.set(cache.generateKey('flipkart', 'iphone 15'), ['listing']);
+
+    await cache.clear();
+
+    expect(store).toEqual(settings);
+  });
+});
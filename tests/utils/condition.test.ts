@@ -0,0 +1,106 @@
+import { Product } from '@/types';
+import { classifyCondition, conditionsMatch, extractCondition } from '@/utils/condition';
+import { extractJsonLd } from '@/utils/structured-data';
+import { smartMatcher } from '@/services/smart-matcher';
+
+describe('classifyCondition', () => {
+  it('reads the condition each site puts in its titles', () => {
+    expect(classifyCondition('(Renewed) Apple iPhone 13, 128GB, Midnight')).toBe('renewed');
+    expect(classifyCondition('APPLE iPhone 13 (Midnight, 128 GB) (Refurbished)')).toBe(
+      'refurbished'
+    );
+    expect(classifyCondition('Samsung Galaxy S23 - Open Box')).toBe('open-box');
+    expect(classifyCondition('Used - Like New: Kindle Paperwhite')).toBe('used');
+    expect(classifyCondition('Apple iPhone 13 (128GB) - Midnight')).toBeUndefined();
+    // "used" as an ordinary word is not a condition
+    expect(classifyCondition('Widely used screen guard for iPhone 13')).toBeUndefined();
+  });
+});
+
+describe('extractCondition', () => {
+  it('prefers badges and URLs over a structured "new"', () => {
+    document.body.innerHTML = `
+      <div id="renewedProgramDescriptionAtf">Amazon Renewed: like-new products you can trust</div>
+    `;
+    expect(
+      extractCondition(
+        document,
+        ['#renewedProgramDescriptionAtf'],
+        'Apple iPhone 13',
+        'https://www.amazon.in/dp/B09G9BL5CP',
+        'new'
+      )
+    ).toBe('renewed');
+    expect(
+      extractCondition(
+        document,
+        undefined,
+        'Apple iPhone 13',
+        'https://www.2gud.com/refurbished/iphone-13/p/1'
+      )
+    ).toBe('refurbished');
+    expect(
+      extractCondition(document, undefined, 'Apple iPhone 13', 'https://www.croma.com/p/1')
+    ).toBe('new');
+  });
+
+  it('reads schema.org itemCondition from JSON-LD offers', () => {
+    document.head.innerHTML = `<script type="application/ld+json">${JSON.stringify({
+      '@type': 'Product',
+      name: 'Apple iPhone 13',
+      offers: {
+        '@type': 'Offer',
+        price: 41999,
+        itemCondition: 'https://schema.org/RefurbishedCondition',
+      },
+    })}</script>`;
+    expect(extractJsonLd(document).condition).toBe('refurbished');
+  });
+
+  it('treats Amazon Renewed as refurbished when matching', () => {
+    expect(conditionsMatch('renewed', 'refurbished')).toBe(true);
+    expect(conditionsMatch(undefined, 'new')).toBe(true);
+    expect(conditionsMatch('new', 'open-box')).toBe(false);
+  });
+});
+
+describe('condition-consistent matching', () => {
+  const listing = (overrides: Partial<Product>): Product => ({
+    site: 'croma',
+    title: 'Apple iPhone 13 (128GB) - Midnight',
+    price: '₹52,999',
+    numericPrice: 52999,
+    url: 'https://www.croma.com/p/243459',
+    image: '',
+    productId: '243459',
+    brand: 'Apple',
+    category: 'electronics-phone',
+    condition: 'new',
+    ...overrides,
+  });
+
+  const source = listing({});
+  const renewed = listing({
+    site: 'amazon',
+    title: '(Renewed) Apple iPhone 13 (128GB) - Midnight',
+    numericPrice: 41999,
+    url: 'https://www.amazon.in/dp/B09V4B6K53',
+    productId: 'B09V4B6K53',
+    condition: 'renewed',
+  });
+  const fresh = listing({
+    site: 'flipkart',
+    url: 'https://www.flipkart.com/p/itm1',
+    productId: 'MOBG6VF5Q82T3XRS',
+  });
+
+  it('leaves out renewed listings for a new product unless asked', async () => {
+    const matches = await smartMatcher.findMatches(source, [renewed, fresh]);
+    expect(matches.map((match) => match.site)).toEqual(['flipkart']);
+
+    const everything = await smartMatcher.findMatches(source, [renewed, fresh], {
+      anyCondition: true,
+    });
+    expect(everything.map((match) => match.site).sort()).toEqual(['amazon', 'flipkart']);
+  });
+});
@@ -0,0 +1,76 @@
+import { Product } from '@/types';
+import { REGIONS } from '@/config/regions';
+import { getSiteFromHostname } from '@/config/sites';
+import { convertProduct } from '@/utils/currency';
+import { formatPrice, parsePrice } from '@/utils/product';
+
+describe('parsePrice', () => {
+  it('reads decimal and grouping separators the way each region writes them', () => {
+    expect(parsePrice('₹1,29,999.00')).toBe(129999);
+    expect(parsePrice('Rs. 1,299')).toBe(1299);
+    expect(parsePrice('$1,029.99', REGIONS.US)).toBe(1029.99);
+    expect(parsePrice('£699.00', REGIONS.UK)).toBe(699);
+    expect(parsePrice('1.099,95 €', REGIONS.DE)).toBe(1099.95);
+  });
+
+  it('takes the first number, skipping the "." in "Rs."', () => {
+    expect(parsePrice('Rs.999 M.R.P.: Rs.1,499')).toBe(999);
+    expect(parsePrice('Rs.')).toBe(0);
+  });
+});
+
+describe('formatPrice', () => {
+  it('formats in the currency and locale of its region', () => {
+    expect(formatPrice(129999)).toBe('₹1,29,999');
+    expect(formatPrice(1029.99, 'USD')).toBe('$1,029.99');
+    expect(formatPrice(1099.95, 'EUR')).toBe('1.099,95 €');
+  });
+});
+
+describe('getSiteFromHostname', () => {
+  it('tells Amazon storefronts apart by domain', () => {
+    expect(getSiteFromHostname('www.amazon.in')).toBe('amazon');
+    expect(getSiteFromHostname('www.amazon.com')).toBe('amazon_us');
+    expect(getSiteFromHostname('www.amazon.co.uk')).toBe('amazon_uk');
+    expect(getSiteFromHostname('m.flipkart.com')).toBe('flipkart');
+    expect(getSiteFromHostname('www.amazon.fr')).toBeNull();
+  });
+});
+
+describe('convertProduct', () => {
+  const listing: Product = {
+    site: 'amazon_us',
+    title: 'Apple iPhone 15 (128 GB) - Black',
+    price: '$729.00',
+    numericPrice: 729,
+    url: 'https://www.amazon.com/dp/B0CMPXK7CW',
+    image: '',
+    productId: 'B0CMPXK7CW',
+    brand: 'Apple',
+    category: 'electronics-phone',
+    currency: 'USD',
+    mrp: 799,
+    delivery: { fee: 5.99 },
+    offers: [{ kind: 'coupon', discountType: 'flat', value: 20, text: 'Save $20 with coupon' }],
+  };
+
+  it('converts every amount into rupees and keeps the original price', () => {
+    const converted = convertProduct(listing, { USD: 83.5 });
+
+    expect(converted).toMatchObject({
+      price: '₹60,872',
+      numericPrice: 60872,
+      mrp: 66717,
+      delivery: { fee: 500 },
+      currency: 'INR',
+      converted: { currency: 'USD', price: '$729.00', rate: 83.5 },
+    });
+    expect(converted?.offers?.[0].value).toBe(1670);
+  });
+
+  it('leaves rupee listings alone and refuses currencies without a rate', () => {
+    const rupees = { ...listing, currency: 'INR' };
+    expect(convertProduct(rupees, {})).toBe(rupees);
+    expect(convertProduct(listing, { EUR: 90 })).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { REGIONS } from '@/config/regions';
+import { extractDelivery, getLandedPrice, parseDelivery } from '@/utils/delivery';
+
+const now = new Date(2025, 9, 19, 12, 0);
+
+describe('parseDelivery', () => {
+  it('reads free delivery and a dated ETA', () => {
+    expect(parseDelivery('FREE delivery Tue, 21 Oct', now)).toEqual({
+      fee: 0,
+      etaDays: 2,
+      etaText: 'Tue, 21 Oct',
+    });
+  });
+
+  it('reads a delivery charge and a relative ETA', () => {
+    expect(parseDelivery('Delivery charge ₹40 · Delivery in 3-5 days', now)).toEqual({
+      fee: 40,
+      etaDays: 5,
+      etaText: 'in 3-5 days',
+    });
+  });
+
+  it('reads fees in the currency of the region', () => {
+    expect(parseDelivery('$5.99 shipping · Arrives Oct 24', now, REGIONS.US)).toEqual({
+      fee: 5.99,
+      etaDays: 5,
+      etaText: 'Oct 24',
+    });
+    expect(parseDelivery('Delivery charge: £4.49', now, REGIONS.UK)?.fee).toBe(4.49);
+    expect(parseDelivery('Delivery 3,99 €', now, REGIONS.DE)?.fee).toBe(3.99);
+    // A rupee fee on a US page is not a fee in dollars
+    expect(parseDelivery('₹40 delivery', now, REGIONS.US)).toBeUndefined();
+  });
+
+  it('rolls dates already past into next year', () => {
+    expect(parseDelivery('Delivery by 2 Jan', now)?.etaDays).toBe(75);
+  });
+
+  it('returns undefined when the text has neither fee nor date', () => {
+    expect(parseDelivery('Check availability', now)).toBeUndefined();
+  });
+});
+
+describe('extractDelivery', () => {
+  it('parses the first delivery element with text', () => {
+    document.body.innerHTML = `
+      <div class="eta"></div>
+      <div class="delivery-msg">Get it Tomorrow · ₹49 delivery</div>
+    `;
+
+    expect(extractDelivery(document, ['.eta', '.delivery-msg'], undefined, now)).toEqual({
+      fee: 49,
+      etaDays: 1,
+      etaText: 'Tomorrow',
+    });
+  });
+});
+
+describe('getLandedPrice', () => {
+  it('adds the delivery fee to the selling price', () => {
+    expect(getLandedPrice({ numericPrice: 999, delivery: { fee: 40 } })).toBe(1039);
+    expect(getLandedPrice({ numericPrice: 999 })).toBe(999);
+  });
+});
@@ -0,0 +1,27 @@
+import { getImageSrc } from '@/utils/dom';
+
+describe('getImageSrc', () => {
+  const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+  it('skips a wrapper element without an image source', () => {
+    // Some sites put the image class on the container, others on the <img>
+    const doc = parse(
+      '<div class="product-image"><img data-src="/images/phone.jpg" alt="Phone"></div>'
+    );
+    const trace = jest.fn();
+
+    expect(
+      getImageSrc(doc, ['.product-image', '.product-image img'], 'https://www.croma.com/p/1', trace)
+    ).toBe('https://www.croma.com/images/phone.jpg');
+    expect(trace).toHaveBeenCalledWith(1);
+  });
+
+  it('falls through to a selector with an image, or returns nothing', () => {
+    const doc = parse(
+      '<div class="hero"></div><img class="thumb" src="https://cdn.example/t.jpg">'
+    );
+
+    expect(getImageSrc(doc, ['.hero', 'img.thumb'])).toBe('https://cdn.example/t.jpg');
+    expect(getImageSrc(doc, ['.hero'])).toBe('');
+  });
+});
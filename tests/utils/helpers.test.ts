@@ -0,0 +1,55 @@
+import { ErrorCode } from '@/types';
+import { escapeHtml, isCancelled, sleep, throwIfAborted, withTimeout } from '@/utils/helpers';
+
+describe('cancellation', () => {
+  it('rejects pending waits with CANCELLED when the signal aborts', async () => {
+    const controller = new AbortController();
+    const never = new Promise<string>(() => undefined);
+
+    const waits = [
+      sleep(60_000, controller.signal),
+      withTimeout(never, 60_000, 'slow', controller.signal),
+    ];
+    controller.abort();
+
+    for (const wait of waits) {
+      await expect(wait).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+    }
+  });
+
+  it('fails fast on an already-aborted signal and leaves others alone', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(() => throwIfAborted(controller.signal)).toThrow('Comparison cancelled');
+    expect(isCancelled(await sleep(10, controller.signal).catch((error) => error))).toBe(true);
+    expect(() => throwIfAborted(new AbortController().signal)).not.toThrow();
+    await expect(withTimeout(Promise.resolve('done'), 1000)).resolves.toBe('done');
+    await expect(withTimeout(new Promise(() => undefined), 5, 'slow')).rejects.toMatchObject({
+      code: ErrorCode.TIMEOUT,
+    });
+  });
+
+  it('stops listening for abort once a wait settles', async () => {
+    const controller = new AbortController();
+    const added = jest.spyOn(controller.signal, 'addEventListener');
+    const removed = jest.spyOn(controller.signal, 'removeEventListener');
+
+    await sleep(1, controller.signal);
+    await withTimeout(Promise.resolve('done'), 1000, 'slow', controller.signal);
+
+    expect(added).toHaveBeenCalledTimes(2);
+    expect(removed.mock.calls.map(([, listener]) => listener)).toEqual(
+      added.mock.calls.map(([, listener]) => listener)
+    );
+  });
+});
+
+describe('escapeHtml', () => {
+  it('neutralizes markup and attribute quotes in scraped text', () => {
+    expect(escapeHtml('5% off" onmouseover="alert(1)')).toBe(
+      '5% off&quot; onmouseover=&quot;alert(1)'
+    );
+    expect(escapeHtml("<img src=x> & 'more'")).toBe('&lt;img src=x&gt; &amp; &#39;more&#39;');
+  });
+});
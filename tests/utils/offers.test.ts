@@ -0,0 +1,76 @@
+import { Offer } from '@/types';
+import { REGIONS } from '@/config/regions';
+import { applyOffers, getEffectivePrice, getOfferDiscount, parseOffer } from '@/utils/offers';
+
+describe('parseOffer', () => {
+  it('reads bank, rate, cap and minimum spend', () => {
+    expect(
+      parseOffer('10% Instant Discount up to ₹1,500 on HDFC Bank Credit Cards on orders of ₹5,000')
+    ).toMatchObject({
+      kind: 'bank',
+      bank: 'hdfc',
+      discountType: 'percent',
+      value: 10,
+      maxDiscount: 1500,
+      minSpend: 5000,
+    });
+  });
+
+  it('reads flat coupons', () => {
+    expect(parseOffer('Apply ₹250 coupon')).toMatchObject({
+      kind: 'coupon',
+      discountType: 'flat',
+      value: 250,
+    });
+  });
+
+  it('reads amounts in the currency of the region', () => {
+    expect(
+      parseOffer('10% off with HSBC credit cards, up to £50 on orders over £200', REGIONS.UK)
+    ).toMatchObject({ bank: 'hsbc', value: 10, maxDiscount: 50, minSpend: 200 });
+    expect(parseOffer('Use code SAVE15 for $15.50 off', REGIONS.US)).toMatchObject({
+      kind: 'coupon',
+      discountType: 'flat',
+      value: 15.5,
+    });
+    expect(parseOffer('Coupon: 5,00 € Rabatt', REGIONS.DE)).toMatchObject({ value: 5 });
+    expect(parseOffer('Apply ₹250 coupon', REGIONS.US)).toBeNull();
+  });
+
+  it('ignores EMI offers and lines that are not bank offers or coupons', () => {
+    expect(parseOffer('No Cost EMI on ICICI Bank cards')).toBeNull();
+    expect(parseOffer('Get GST invoice and save up to 28%')).toBeNull();
+  });
+});
+
+describe('applyOffers', () => {
+  const offers: Offer[] = [
+    { kind: 'coupon', discountType: 'flat', value: 1000, text: 'Save ₹1,000 with coupon' },
+    {
+      kind: 'bank',
+      bank: 'hdfc',
+      discountType: 'percent',
+      value: 10,
+      maxDiscount: 1500,
+      text: 'HDFC 10%',
+    },
+    { kind: 'bank', bank: 'sbi', discountType: 'flat', value: 3000, text: 'SBI ₹3,000' },
+  ];
+
+  it('stacks the best coupon with the best offer for an owned card', () => {
+    const applied = applyOffers({ numericPrice: 11000, offers }, ['hdfc']);
+
+    expect(applied.bank?.bank).toBe('hdfc');
+    expect(applied.savings).toBe(2000);
+  });
+
+  it('skips bank offers for cards the user does not own', () => {
+    expect(getEffectivePrice({ numericPrice: 11000, offers }, [])).toBe(10000);
+  });
+
+  it('applies no discount below the minimum spend', () => {
+    const offer: Offer = { ...offers[0], minSpend: 20000 };
+
+    expect(getOfferDiscount(offer, 11000)).toBe(0);
+  });
+});
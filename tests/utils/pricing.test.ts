@@ -0,0 +1,36 @@
+import { isStrikethrough, resolvePricing } from '@/utils/pricing';
+
+describe('resolvePricing', () => {
+  it('computes the discount off MRP', () => {
+    expect(resolvePricing(1299, 4490)).toEqual({ salePrice: 1299, mrp: 4490, discountPercent: 71 });
+  });
+
+  it('swaps price and MRP when they were grabbed the wrong way round', () => {
+    expect(resolvePricing(79900, 69900)).toEqual({
+      salePrice: 69900,
+      mrp: 79900,
+      discountPercent: 13,
+    });
+  });
+
+  it('drops an MRP equal to the price', () => {
+    expect(resolvePricing(649, 649)).toEqual({ salePrice: 649 });
+  });
+});
+
+describe('isStrikethrough', () => {
+  it('detects struck-through prices by tag, style and class', () => {
+    document.body.innerHTML = `
+      <span id="del"><del>₹4,199</del></span>
+      <span id="style" style="text-decoration: line-through">₹4,199</span>
+      <div class="old-price"><span id="class">₹89,999</span></div>
+      <div class="new-price"><span id="sale">₹79,999</span></div>
+    `;
+    const byId = (id: string) => document.getElementById(id)!;
+
+    expect(isStrikethrough(byId('del').firstElementChild!)).toBe(true);
+    expect(isStrikethrough(byId('style'))).toBe(true);
+    expect(isStrikethrough(byId('class'))).toBe(true);
+    expect(isStrikethrough(byId('sale'))).toBe(false);
+  });
+});
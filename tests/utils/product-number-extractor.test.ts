@@ -0,0 +1,88 @@
+import { Product } from '@/types';
+import {
+  extractProductNumbers,
+  identifiersFromSpecs,
+  isValidGtin,
+  parseIdentifier,
+} from '@/utils/product-number-extractor';
+import { productMatcher } from '@/services/matcher';
+import { smartMatcher } from '@/services/smart-matcher';
+
+describe('parseIdentifier', () => {
+  it('validates GS1 check digits and normalizes to 13 digits', () => {
+    expect(isValidGtin('8901526308545')).toBe(true);
+    expect(isValidGtin('8901526308543')).toBe(false);
+    expect(parseIdentifier('8901526308545')).toEqual({ gtin: '8901526308545', isbn: '' });
+    // UPC-A and GTIN-14 forms of the same item
+    expect(parseIdentifier('036000291452')).toEqual({ gtin: '0036000291452', isbn: '' });
+    expect(parseIdentifier('00036000291452')?.gtin).toBe('0036000291452');
+    expect(parseIdentifier('96385074')?.gtin).toBe('96385074');
+    expect(parseIdentifier('8901526308543')).toBeNull();
+  });
+
+  it('validates ISBN-10 and converts it to ISBN-13', () => {
+    expect(parseIdentifier('0-306-40615-2')).toEqual({
+      gtin: '9780306406157',
+      isbn: '9780306406157',
+    });
+    expect(parseIdentifier('080442957X')?.isbn).toBe('9780804429573');
+    expect(parseIdentifier('978-0-306-40615-7')?.isbn).toBe('9780306406157');
+    expect(parseIdentifier('0-306-40615-3')).toBeNull();
+  });
+});
+
+describe('extractProductNumbers', () => {
+  it('reads barcodes from explicit sources and labeled title text only', () => {
+    const fromSpecs = extractProductNumbers(
+      'Apple iPhone 15 (128 GB) - Black',
+      'B0CHX1W1XY',
+      undefined,
+      identifiersFromSpecs({ 'Item model number': 'MTP03HN/A', EAN: '0195949035913' })
+    );
+    expect(fromSpecs.asin).toBe('B0CHX1W1XY');
+    expect(fromSpecs.gtin).toBe('0195949035913');
+
+    const book = extractProductNumbers('Atomic Habits (Paperback) ISBN-10: 1847941834');
+    expect(book.isbn).toBe('9781847941831');
+
+    expect(extractProductNumbers('Power Bank 8901526308545 mAh').gtin).toBe('');
+  });
+});
+
+describe('identifier-first matching', () => {
+  const product = (overrides: Partial<Product>): Product => ({
+    site: 'amazon',
+    title: 'Apple iPhone 15 (128 GB) - Black',
+    price: '₹69,900',
+    numericPrice: 69900,
+    url: 'https://www.amazon.in/dp/B0CHX1W1XY',
+    image: '',
+    productId: 'B0CHX1W1XY',
+    brand: 'Apple',
+    category: 'smartphones',
+    gtin: '0195949035913',
+    ...overrides,
+  });
+
+  const source = product({});
+  const sameBarcode = product({
+    site: 'croma',
+    title: 'APPLE MTP03HN/A Mobile Phone',
+    productId: '300652',
+    brand: '',
+    category: 'electronics',
+  });
+  const lookalike = product({ site: 'flipkart', productId: 'MOBGTAGPTB3VS24W', gtin: undefined });
+
+  it('ranks a shared GTIN above every heuristic score in both matchers', async () => {
+    const smart = await smartMatcher.findMatches(source, [lookalike, sameBarcode]);
+    expect(smart[0]).toMatchObject({
+      site: 'croma',
+      confidence: 100,
+      matchReason: 'Barcode: 0195949035913',
+    });
+
+    const legacy = await productMatcher.findMatches(source, [lookalike, sameBarcode]);
+    expect(legacy.map((match) => match.site)).toEqual(['croma']);
+  });
+});
@@ -0,0 +1,150 @@
+import { Product } from '@/types';
+import { deduplicateProducts } from '@/utils/deduplication';
+import { smartMatcher } from '@/services/smart-matcher';
+import {
+  extractNetQuantity,
+  getUnitPrice,
+  parseNetQuantity,
+  parsePackCount,
+} from '@/utils/quantity';
+
+describe('parseNetQuantity', () => {
+  it('reads volume, weight and counts into base units', () => {
+    expect(parseNetQuantity('Dove Intense Repair Shampoo 180ml')).toEqual({
+      value: 180,
+      unit: 'ml',
+    });
+    expect(parseNetQuantity('Fortune Sunlite Oil 1 Ltr Pouch')).toEqual({
+      value: 1000,
+      unit: 'ml',
+    });
+    expect(parseNetQuantity('Aashirvaad Atta 5 kg')).toEqual({ value: 5000, unit: 'g' });
+    expect(parseNetQuantity('Tata Salt 1000.0 gram')).toEqual({ value: 1000, unit: 'g' });
+    expect(parseNetQuantity('Limcee Vitamin C 60 Tablets')).toEqual({ value: 60, unit: 'count' });
+  });
+
+  it('ignores network generations and titles without a quantity', () => {
+    expect(parseNetQuantity('Redmi 13 5G (128 GB)')).toBeUndefined();
+    expect(parseNetQuantity('Apple iPhone 15 (128 GB) - Black')).toBeUndefined();
+  });
+
+  it('prefers the net quantity spec row over the title', () => {
+    expect(
+      extractNetQuantity('Maggi Noodles Pack', { 'Net Quantity': '280.0 gram', Weight: '300 g' })
+    ).toEqual({ value: 280, unit: 'g' });
+    expect(extractNetQuantity('Nivea Body Lotion 400ml', { Weight: '430 g' })).toEqual({
+      value: 400,
+      unit: 'ml',
+    });
+  });
+});
+
+describe('parsePackCount', () => {
+  it('reads multipack counts in their common spellings', () => {
+    expect(parsePackCount('Dove Shampoo 180ml (Pack of 2)')).toBe(2);
+    expect(parsePackCount('Prestige Container Set of 4')).toBe(4);
+    expect(parsePackCount('Nivea Soft Creme 2 x 100ml')).toBe(2);
+    expect(parsePackCount('Duracell AA Batteries 8-Pack')).toBe(8);
+    expect(parsePackCount('Dove Intense Repair Shampoo 180ml')).toBe(1);
+  });
+
+  it('does not read dimensions as a pack count', () => {
+    expect(parsePackCount('Photo Frame 8 x 10 inch')).toBe(1);
+    expect(parsePackCount('Cushion Cover 16 x 16 in, Cotton')).toBe(1);
+    expect(parsePackCount('Bedsheet 90 x 100 cm')).toBe(1);
+    expect(parsePackCount('Maggi Noodles 4 x 70 g')).toBe(4);
+  });
+
+  it('counts the contents of every item in the pack', () => {
+    expect(extractNetQuantity('Dove Shampoo 180ml (Pack of 2)')).toEqual({
+      value: 360,
+      unit: 'ml',
+    });
+    expect(extractNetQuantity('Nivea Soft Creme 2 x 100ml')).toEqual({ value: 200, unit: 'ml' });
+    expect(extractNetQuantity('Limcee Vitamin C Pack of 60 Tablets')).toEqual({
+      value: 60,
+      unit: 'count',
+    });
+  });
+});
+
+describe('getUnitPrice', () => {
+  it('quotes per 100 ml, per 100 g and per item', () => {
+    // The bigger bottle is dearer but cheaper per ml
+    expect(getUnitPrice(299, { value: 180, unit: 'ml' })).toEqual({
+      price: 166.11,
+      per: 100,
+      unit: 'ml',
+    });
+    expect(getUnitPrice(499, { value: 340, unit: 'ml' })?.price).toBe(146.76);
+    expect(getUnitPrice(120, { value: 60, unit: 'count' })).toEqual({
+      price: 2,
+      per: 1,
+      unit: 'count',
+    });
+    expect(getUnitPrice(299, undefined)).toBeUndefined();
+  });
+});
+
+describe('deduplicateProducts', () => {
+  const product = (title: string, price: number): Product => ({
+    site: 'nykaa',
+    title,
+    price: `₹${price}`,
+    numericPrice: price,
+    url: `https://www.nykaa.com/${price}`,
+    image: '',
+    productId: String(price),
+    brand: 'Dove',
+    category: 'beauty',
+    netQuantity: parseNetQuantity(title),
+  });
+
+  it('keeps pack sizes of the same product apart', () => {
+    const sizes = deduplicateProducts([
+      product('Dove Intense Repair Shampoo 180ml', 299),
+      product('Dove Intense Repair Shampoo 340ml', 499),
+    ]);
+    expect(sizes).toHaveLength(2);
+
+    const packs = deduplicateProducts([
+      { ...product('Dove Intense Repair Shampoo', 299), netQuantity: undefined },
+      {
+        ...product('Dove Intense Repair Shampoo (Pack of 3)', 849),
+        netQuantity: undefined,
+        packCount: 3,
+      },
+    ]);
+    expect(packs).toHaveLength(2);
+  });
+});
+
+describe('multipack matching', () => {
+  it('matches a multipack to the single unit and names the pack size', async () => {
+    const single: Product = {
+      site: 'nykaa',
+      title: 'Dove Intense Repair Shampoo 180ml',
+      price: '₹299',
+      numericPrice: 299,
+      url: 'https://www.nykaa.com/dove-shampoo/p/1',
+      image: '',
+      productId: '1',
+      brand: 'Dove',
+      category: 'beauty',
+    };
+    const pack: Product = {
+      ...single,
+      site: 'amazon',
+      title: 'Dove Intense Repair Shampoo 180ml (Pack of 3)',
+      price: '₹849',
+      numericPrice: 849,
+      url: 'https://www.amazon.in/dp/B000000001',
+      productId: 'B000000001',
+      packCount: 3,
+    };
+
+    const [match] = await smartMatcher.findMatches(single, [pack]);
+    expect(match?.site).toBe('amazon');
+    expect(match?.matchReason).toContain('Pack of 3');
+  });
+});
@@ -0,0 +1,47 @@
+import { aggregateRatings, parseRating, parseReviewCount } from '@/utils/ratings';
+
+describe('parseRating', () => {
+  it('reads ratings on a five-point scale', () => {
+    expect(parseRating('4.3 out of 5 stars')).toBe(4.3);
+    expect(parseRating('4.6★')).toBe(4.6);
+    expect(parseRating('8.6/10')).toBe(4.3);
+    expect(parseRating('4,6 von 5 Sternen')).toBe(4.6);
+    expect(parseRating('No ratings')).toBeUndefined();
+  });
+});
+
+describe('parseReviewCount', () => {
+  it('reads separators, abbreviations and combined rating/review text', () => {
+    expect(parseReviewCount('(12,345)')).toBe(12345);
+    expect(parseReviewCount('12.3K ratings')).toBe(12300);
+    expect(parseReviewCount('1,23,456 Ratings & 7,890 Reviews')).toBe(123456);
+    expect(parseReviewCount('(3.512)')).toBe(3512);
+    expect(parseReviewCount('')).toBeUndefined();
+  });
+});
+
+describe('aggregateRatings', () => {
+  it('weights each site by its rating count', () => {
+    expect(
+      aggregateRatings([
+        { site: 'amazon', rating: 4.0, reviewCount: 40000 },
+        { site: 'croma', rating: 5.0, reviewCount: 12 },
+        { site: 'nykaa', rating: 3.0 },
+      ])
+    ).toEqual({ rating: 4.0, reviewCount: 40012, sites: 2 });
+  });
+
+  it('counts one listing per site', () => {
+    expect(
+      aggregateRatings([
+        { site: 'amazon', rating: 4.5, reviewCount: 1000 },
+        { site: 'amazon', rating: 4.5, reviewCount: 1000 },
+        { site: 'flipkart', rating: 4.0, reviewCount: 1000 },
+      ])
+    ).toEqual({ rating: 4.3, reviewCount: 2000, sites: 2 });
+  });
+
+  it('returns null when nothing has a rating count', () => {
+    expect(aggregateRatings([{ site: 'amazon', rating: 4.5 }])).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { ScrapeDepthConfig, ScrapedProduct } from '@/types';
+import { countStrongCandidates, hasEnoughResults, mergeSearchResults } from '@/utils/search-depth';
+
+function tile(title: string, url: string): ScrapedProduct {
+  return {
+    site: 'test',
+    title,
+    price: '₹100',
+    url,
+    image: '',
+    productId: '',
+    brand: '',
+    category: '',
+  };
+}
+
+const depth: ScrapeDepthConfig = {
+  mode: 'infinite-scroll',
+  maxResults: 3,
+  maxScrolls: 3,
+  maxPages: 1,
+  nextPage: [],
+  enoughCandidates: 2,
+};
+
+describe('mergeSearchResults', () => {
+  it('skips URLs already collected and stops at the cap', () => {
+    const first = [tile('A', 'https://x.test/a'), tile('B', 'https://x.test/b')];
+    const loaded = [
+      tile('A', 'https://x.test/a'),
+      tile('C', 'https://x.test/c'),
+      tile('D', 'https://x.test/d'),
+    ];
+
+    expect(mergeSearchResults(first, loaded, 3).map((p) => p.title)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('does not count sponsored tiles toward the cap', () => {
+    const ad = { ...tile('Ad', 'https://x.test/ad'), isSponsored: true };
+    const loaded = [ad, tile('A', 'https://x.test/a'), tile('B', 'https://x.test/b')];
+
+    expect(mergeSearchResults([], loaded, 2).map((p) => p.title)).toEqual(['Ad', 'A', 'B']);
+  });
+});
+
+describe('countStrongCandidates', () => {
+  it('counts titles containing most query tokens', () => {
+    const products = [
+      tile('Apple iPhone 15 (128 GB) - Black', 'https://x.test/1'),
+      tile('Apple iPhone 15 Silicone Case', 'https://x.test/2'),
+      tile('Samsung Galaxy S24', 'https://x.test/3'),
+    ];
+
+    expect(countStrongCandidates(products, 'apple iphone 15 128gb')).toBe(2);
+  });
+});
+
+describe('hasEnoughResults', () => {
+  it('stops at the result cap or once enough candidates match', () => {
+    const two = [
+      tile('Sony WH-1000XM5', 'https://x.test/1'),
+      tile('Sony WH-1000XM5 Black', 'https://x.test/2'),
+    ];
+
+    expect(hasEnoughResults(two, 'sony wh 1000xm5', depth)).toBe(true);
+    expect(hasEnoughResults(two, 'bose qc45', depth)).toBe(false);
+    expect(hasEnoughResults(two, undefined, depth)).toBe(false);
+  });
+});
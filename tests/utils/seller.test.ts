@@ -0,0 +1,43 @@
+import { extractSeller, parseSellerRating } from '@/utils/seller';
+
+describe('parseSellerRating', () => {
+  it('reads star ratings and converts percent-positive to five stars', () => {
+    expect(parseSellerRating('4.3 ★')).toBe(4.3);
+    expect(parseSellerRating('92% positive')).toBe(4.6);
+    expect(parseSellerRating('12 ratings')).toBeUndefined();
+  });
+});
+
+describe('extractSeller', () => {
+  it('detects fulfilment from the seller block text when no badge element matches', () => {
+    document.body.innerHTML = `
+      <div id="merchant-info">Sold by <a id="seller">Cloudtail India (Prime)</a>. Ships from Amazon.</div>
+    `;
+
+    expect(
+      extractSeller(document, { name: ['#seller'], container: ['#merchant-info'] }, 'fba')
+    ).toEqual({
+      name: 'Cloudtail India',
+      rating: undefined,
+      fulfilment: 'fba',
+    });
+  });
+
+  it('ignores fulfilment text outside the seller block', () => {
+    document.body.innerHTML = `
+      <div id="merchant-info">Sold by <a id="seller">Gadget Hub</a>. Ships from Gadget Hub.</div>
+      <div id="faq">Q: Is this Fulfilled by Amazon? A: Other offers are.</div>
+    `;
+
+    expect(
+      extractSeller(document, { name: ['#seller'], container: ['#merchant-info'] }, 'fba')
+    ).toEqual({ name: 'Gadget Hub', rating: undefined, fulfilment: undefined });
+    expect(extractSeller(document, { name: ['#seller'] }, 'fba')?.fulfilment).toBeUndefined();
+  });
+
+  it('returns undefined when the page has no seller information', () => {
+    document.body.innerHTML = '<div>Nothing here</div>';
+
+    expect(extractSeller(document, { name: ['#seller'] }, 'assured')).toBeUndefined();
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  extractSpecAttributes,
+  normalizeSpecs,
+  parseDisplaySize,
+  parseWeight,
+  readSpecRows,
+} from '@/utils/spec-table';
+
+describe('readSpecRows', () => {
+  it('reads Amazon-style detail bullets with bidi-padded keys', () => {
+    document.body.innerHTML = `
+      <ul id="bullets">
+        <li><span class="a-list-item"><span class="a-text-bold">Item model number &rlm; : &lrm;</span><span>SM-S921BZKDINS</span></span></li>
+        <li><span class="a-list-item"><span class="a-text-bold">Country of Origin &rlm; : &lrm;</span><span>India</span></span></li>
+      </ul>
+    `;
+
+    expect(readSpecRows(document.getElementById('bullets')!)).toEqual([
+      ['Item model number', 'SM-S921BZKDINS'],
+      ['Country of Origin', 'India'],
+    ]);
+  });
+
+  it('reads definition lists and "Key: Value" items', () => {
+    document.body.innerHTML = `
+      <dl id="dl"><dt>Processor</dt><dd>Snapdragon 8 Gen 3</dd></dl>
+      <ul id="plain"><li>Battery: 4000 mAh</li></ul>
+    `;
+
+    expect(readSpecRows(document.getElementById('dl')!)).toEqual([
+      ['Processor', 'Snapdragon 8 Gen 3'],
+    ]);
+    expect(readSpecRows(document.getElementById('plain')!)).toEqual([['Battery', '4000 mAh']]);
+  });
+});
+
+describe('normalizeSpecs', () => {
+  it('maps common keys onto typed attributes and keeps the raw rows', () => {
+    const specs = {
+      'Model Number': 'SM-S921B',
+      'Processor Name': 'Snapdragon 8 Gen 3',
+      'Screen Size': '15.64 cm',
+      'Battery Capacity': '4,000 mAh',
+      'Item Weight': '0.167 Kilograms',
+      'Internal Storage': '256 GB',
+      RAM: '8 GB',
+      'Processor Brand': 'Qualcomm',
+    };
+
+    expect(normalizeSpecs(specs)).toEqual({
+      specs,
+      modelNumber: 'SM-S921B',
+      processor: 'Snapdragon 8 Gen 3',
+      displaySize: 6.2,
+      battery: 4000,
+      weight: 167,
+      storage: '256GB',
+      ram: '8GB',
+    });
+  });
+});
+
+describe('extractSpecAttributes', () => {
+  it('merges rows from every container of the matched selector', () => {
+    document.body.innerHTML = `
+      <table class="specs"><tr><td>Model Name</td><td>Galaxy S24</td></tr></table>
+      <table class="specs"><tr><td>Display Size</td><td>6.2 inch</td></tr></table>
+    `;
+
+    expect(extractSpecAttributes(document, ['.missing', '.specs'])).toMatchObject({
+      model: 'Galaxy S24',
+      displaySize: 6.2,
+    });
+  });
+});
+
+describe('unit parsing', () => {
+  it('prefers inches over centimetres and converts kilograms', () => {
+    expect(parseDisplaySize('15.49 cm (6.1 inch)')).toBe(6.1);
+    expect(parseWeight('1.5 kg')).toBe(1500);
+  });
+});
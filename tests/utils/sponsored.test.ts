@@ -0,0 +1,64 @@
+import { Product, ScrapedProduct } from '@/types';
+import { isSponsoredTile } from '@/utils/sponsored';
+import { smartMatcher } from '@/services/smart-matcher';
+
+function tileElement(html: string): Element {
+  document.body.innerHTML = html;
+  return document.body.firstElementChild as Element;
+}
+
+describe('isSponsoredTile', () => {
+  it('recognizes site markers, ad attributes and standalone labels', () => {
+    expect(
+      isSponsoredTile(
+        tileElement('<div><span class="puis-sponsored-label-text">Sponsored</span></div>'),
+        ['.puis-sponsored-label-text']
+      )
+    ).toBe(true);
+    expect(isSponsoredTile(tileElement('<div class="AdHolder"><h2>Case</h2></div>'))).toBe(true);
+    expect(isSponsoredTile(tileElement('<div><a data-ad-id="42">Case</a></div>'))).toBe(true);
+    expect(isSponsoredTile(tileElement('<div><h2>Case</h2><div>Ad •</div></div>'))).toBe(true);
+  });
+
+  it('ignores organic tiles that mention ads in their text', () => {
+    expect(
+      isSponsoredTile(tileElement('<div><h2>Ad-free music with boAt Airdopes 141</h2></div>'))
+    ).toBe(false);
+    expect(isSponsoredTile(tileElement('<div><span>Sponsored by nobody</span></div>'))).toBe(false);
+  });
+});
+
+describe('sponsored results in matching', () => {
+  const listing = (overrides: Partial<Product & ScrapedProduct>): Product => ({
+    site: 'amazon',
+    title: 'Apple iPhone 15 (128 GB) - Black',
+    price: '₹69,900',
+    numericPrice: 69900,
+    url: 'https://www.amazon.in/dp/B0CHX1W1XY',
+    image: '',
+    productId: 'B0CHX1W1XY',
+    brand: 'Apple',
+    category: 'electronics-phone',
+    ...overrides,
+  });
+
+  const source = listing({ site: 'croma', url: 'https://www.croma.com/p/300652' });
+  const organic = listing({});
+  const ad = listing({
+    site: 'flipkart',
+    url: 'https://www.flipkart.com/p/itm6ac6485515ae4',
+    productId: 'MOBGTAGPTB3VS24W',
+    isSponsored: true,
+  });
+
+  it('scores ads lower by default and drops them when excluded', async () => {
+    const [first, second] = await smartMatcher.findMatches(source, [ad, organic]);
+    expect(first.site).toBe('amazon');
+    expect(second.confidence).toBe(first.confidence - 10);
+
+    const excluded = await smartMatcher.findMatches(source, [ad, organic], {
+      sponsored: 'exclude',
+    });
+    expect(excluded.map((match) => match.site)).toEqual(['amazon']);
+  });
+});
@@ -0,0 +1,70 @@
+import { extractJsonLd, extractMicrodata, extractOpenGraph } from '@/utils/structured-data';
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+describe('extractMicrodata', () => {
+  it('ignores itemprops outside a Product scope', () => {
+    const doc = parse(`
+      <ol itemtype="https://schema.org/BreadcrumbList">
+        <li><span itemprop="name">Mobiles</span></li>
+      </ol>
+      <div class="review"><span itemprop="ratingValue">2</span></div>
+      <span itemprop="price" content="499"></span>
+    `);
+    expect(extractMicrodata(doc)).toEqual({});
+  });
+
+  it('reads prices and ratings in either decimal notation', () => {
+    const product = (price: string, rating: string) =>
+      extractMicrodata(
+        parse(`
+          <div itemscope itemtype="https://schema.org/Product">
+            <h1 itemprop="name">Bosch Akkuschrauber</h1>
+            <span itemprop="price">${price}</span>
+            <span itemprop="ratingValue">${rating}</span>
+          </div>
+        `)
+      );
+
+    expect(product('1.299,00 €', '4,5')).toMatchObject({ price: 1299, rating: 4.5 });
+    expect(product('$1,299.00', '4.5')).toMatchObject({ price: 1299, rating: 4.5 });
+    expect(product('Rs. 1,299', '4')).toMatchObject({ price: 1299, rating: 4 });
+    expect(product('₹1,23,456', '4')).toMatchObject({ price: 123456 });
+  });
+});
+
+describe('extractJsonLd', () => {
+  it('reads nested offers, brand and image objects', () => {
+    const doc = parse(`
+      <script type="application/ld+json">
+        {"@graph": [{"@type": "Product", "name": "Echo Dot",
+          "brand": {"@type": "Brand", "name": "Amazon"},
+          "image": [{"url": "https://example.com/dot.jpg"}],
+          "offers": [{"price": "4499.00", "priceCurrency": "INR"}],
+          "aggregateRating": {"ratingValue": 4.4, "reviewCount": "1,204"}}]}
+      </script>
+    `);
+
+    expect(extractJsonLd(doc)).toMatchObject({
+      title: 'Echo Dot',
+      brand: 'Amazon',
+      image: 'https://example.com/dot.jpg',
+      price: 4499,
+      currency: 'INR',
+      rating: 4.4,
+      reviewCount: 1204,
+    });
+  });
+});
+
+describe('extractOpenGraph', () => {
+  const titleOf = (title: string) =>
+    extractOpenGraph(parse(`<meta property="og:title" content="${title}">`)).title;
+
+  it('strips retailer SEO wrappers from the title', () => {
+    expect(titleOf('Buy Apple iPhone 15 Online At Best Price @ Tata CLiQ')).toBe('Apple iPhone 15');
+    expect(titleOf('Sony WH-1000XM5 at Lowest Price | Croma')).toBe('Sony WH-1000XM5');
+    expect(titleOf('Samsung Galaxy S24 | Vijay Sales')).toBe('Samsung Galaxy S24');
+    expect(titleOf('Boat Airdopes 141')).toBe('Boat Airdopes 141');
+  });
+});
@@ -0,0 +1,55 @@
+import { extractSelectedVariant, readOptionLabel } from '@/utils/variant';
+import { generateSearchQueries } from '@/utils/product';
+
+describe('extractSelectedVariant', () => {
+  it('splits RAM and storage out of a combined storage swatch', () => {
+    document.body.innerHTML = `
+      <ul class="storage"><li>6 GB RAM | 128 GB</li><li class="selected">8 GB RAM | 256 GB</li></ul>
+      <div class="colour"><span class="selected" title="Titanium Grey"></span></div>
+    `;
+
+    expect(
+      extractSelectedVariant(document, {
+        storage: ['.storage .selected'],
+        color: ['.colour .selected'],
+      })
+    ).toEqual({
+      ram: '8GB',
+      storage: '256GB',
+      color: 'Titanium Grey',
+      variant: '8 GB RAM | 256 GB / Titanium Grey',
+    });
+  });
+
+  it('keeps clothing sizes as size and phone capacities as storage', () => {
+    document.body.innerHTML = '<span class="size">Size: XL</span>';
+    expect(extractSelectedVariant(document, { size: ['.size'] })?.size).toBe('XL');
+
+    document.body.innerHTML = '<span class="size">Size: 512 GB</span>';
+    expect(extractSelectedVariant(document, { size: ['.size'] })?.storage).toBe('512GB');
+  });
+
+  it('returns undefined when nothing is selected', () => {
+    document.body.innerHTML = '<ul class="storage"><li>128 GB</li></ul>';
+
+    expect(extractSelectedVariant(document, { storage: ['.storage .selected'] })).toBeUndefined();
+  });
+});
+
+describe('readOptionLabel', () => {
+  it('falls back to image alt text for image swatches', () => {
+    document.body.innerHTML = '<button id="swatch"><img alt="Midnight Black"></button>';
+
+    expect(readOptionLabel(document.getElementById('swatch')!)).toBe('Midnight Black');
+  });
+});
+
+describe('generateSearchQueries with a selected variant', () => {
+  it('searches for the selected storage rather than the one in the title', () => {
+    const queries = generateSearchQueries('Apple iPhone 15 (128 GB) - Black', 'Apple', '', '', '', {
+      storage: '256GB',
+    });
+
+    expect(queries).toContain('Apple iPhone 15 256GB');
+  });
+});
@@ -12,6 +12,7 @@ module.exports = (env, argv) => {
       popup: './src/popup/index.ts',
       background: './src/background/service-worker.ts',
       'content-script': './src/content/content-script.ts',
+      offscreen: './src/offscreen/offscreen.ts',
     },
     output: {
       path: path.resolve(__dirname, 'dist'),
@@ -52,6 +53,7 @@ module.exports = (env, argv) => {
         patterns: [
           { from: 'src/manifest.json', to: 'manifest.json' },
           { from: 'src/popup/popup.html', to: 'popup.html' },
+          { from: 'src/offscreen/offscreen.html', to: 'offscreen.html' },
           { from: 'src/assets', to: 'assets', noErrorOnMissing: true },
         ],
       }),
@@ -61,7 +63,8 @@ module.exports = (env, argv) => {
     optimization: {
       minimize: isProduction,
       splitChunks: {
-        chunks: 'all',
+        // Each extension page/script loads exactly one bundle, so entry chunks can't be split
+        chunks: 'async',
         cacheGroups: {
           vendor: {
             test: /[\\/]node_modules[\\/]/,